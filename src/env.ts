@@ -0,0 +1,218 @@
+import {
+  IsoCard,
+  type ControllerAction,
+  type ControllerObservation,
+  type IsoDeps,
+  type ObjectId,
+  type SceneEntry,
+  type SceneExport,
+} from "./isocard.js";
+
+/** Gym-style space descriptors */
+export type BoxSpace = {
+  type: "box";
+  shape: number[];
+  low: number | number[];
+  high: number | number[];
+};
+
+export type DiscreteSpace = {
+  type: "discrete";
+  n: number;
+};
+
+export type Space = BoxSpace | DiscreteSpace;
+
+export type EnvContext = {
+  iso: IsoCard;
+  /** Env steps taken since the last reset */
+  stepCount: number;
+  /** Observation of an object by name (or id), null if it does not exist */
+  object: (name: string) => ControllerObservation | null;
+  /** Seeded random number generator in [0, 1) */
+  random: () => number;
+};
+
+export type StepResult<Obs> = {
+  observation: Obs;
+  reward: number;
+  terminated: boolean;
+  truncated: boolean;
+  info: Record<string, any>;
+};
+
+export type IsoCardEnvOptions<Obs = number[], Act = ControllerAction> = {
+  deps: IsoDeps;
+  /** Scene JSON: an entry array, a `{ scene, constraints }` document, or its string form */
+  scene: string | SceneEntry[] | SceneExport;
+  /** Name (or id) of the object actions are applied to by default */
+  agent?: string;
+  /** Physics steps per second */
+  hz?: number;
+  /** Physics steps per env step */
+  frameSkip?: number;
+  /** Truncate episodes after this many env steps */
+  maxEpisodeSteps?: number;
+  actionSpace?: Space;
+  observationSpace?: Space;
+  observe?: (ctx: EnvContext) => Obs;
+  reward?: (ctx: EnvContext, action: Act) => number;
+  terminated?: (ctx: EnvContext) => boolean;
+  /** Apply an action; defaults to applyControllerAction on the agent */
+  applyAction?: (ctx: EnvContext, action: Act) => void;
+  /** Called after every reset, e.g. to randomize the initial state */
+  onReset?: (ctx: EnvContext) => void;
+};
+
+// Default observation: position, rotation, linear and angular velocity
+const AGENT_OBSERVATION_SIZE = 13;
+
+/**
+ * Small deterministic PRNG so reset(seed) is reproducible
+ */
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Reinforcement learning environment around a headless IsoCard.
+ * Every reset rebuilds the physics world from the scene JSON.
+ */
+export class IsoCardEnv<Obs = number[], Act = ControllerAction> {
+  readonly iso: IsoCard;
+  readonly actionSpace: Space;
+  readonly observationSpace: Space;
+
+  private options: IsoCardEnvOptions<Obs, Act>;
+  private sceneJson: string;
+  private stepCount: number = 0;
+  private random: () => number = mulberry32(Date.now());
+  private ctx: EnvContext;
+
+  constructor(options: IsoCardEnvOptions<Obs, Act>) {
+    this.options = { hz: 60, frameSkip: 1, ...options };
+    this.sceneJson =
+      typeof options.scene === "string"
+        ? options.scene
+        : JSON.stringify(options.scene);
+
+    this.iso = new IsoCard({}, options.deps, { isServer: true });
+    this.iso.setFixedTimeStep(this.options.hz);
+
+    this.actionSpace = options.actionSpace ?? {
+      type: "box",
+      shape: [3],
+      low: -Infinity,
+      high: Infinity,
+    };
+    this.observationSpace = options.observationSpace ?? {
+      type: "box",
+      shape: [AGENT_OBSERVATION_SIZE],
+      low: -Infinity,
+      high: Infinity,
+    };
+
+    const env = this;
+    this.ctx = {
+      iso: this.iso,
+      get stepCount() {
+        return env.stepCount;
+      },
+      object: (name) => this.iso.getObservation(this.resolveId(name)),
+      random: () => this.random(),
+    };
+  }
+
+  /**
+   * Rebuild the world from the scene JSON and return the first observation
+   */
+  async reset(
+    seed?: number
+  ): Promise<{ observation: Obs; info: Record<string, any> }> {
+    if (seed !== undefined) this.random = mulberry32(seed);
+
+    this.iso.resetPhysics();
+    this.iso.clearScene();
+    if (!(await this.iso.setupJOLT())) {
+      throw new Error("Failed to initialize Jolt Physics");
+    }
+    this.iso.loadSceneWithConstraints(this.sceneJson);
+    this.stepCount = 0;
+
+    if (this.options.onReset) this.options.onReset(this.ctx);
+
+    return { observation: this.observe(), info: this.getInfo() };
+  }
+
+  step(action: Act): StepResult<Obs> {
+    if (this.options.applyAction) {
+      this.options.applyAction(this.ctx, action);
+    } else if (this.options.agent) {
+      this.iso.applyControllerAction(
+        this.resolveId(this.options.agent),
+        action as ControllerAction
+      );
+    }
+
+    for (let i = 0; i < this.options.frameSkip; i++) {
+      this.iso.step();
+    }
+    this.stepCount++;
+
+    const observation = this.observe();
+    const reward = this.options.reward
+      ? this.options.reward(this.ctx, action)
+      : 0;
+    const terminated = this.options.terminated
+      ? this.options.terminated(this.ctx)
+      : false;
+    const truncated =
+      !terminated &&
+      this.options.maxEpisodeSteps !== undefined &&
+      this.stepCount >= this.options.maxEpisodeSteps;
+
+    return { observation, reward, terminated, truncated, info: this.getInfo() };
+  }
+
+  /**
+   * Release the physics world
+   */
+  close() {
+    this.iso.resetPhysics();
+    this.iso.clearScene();
+  }
+
+  /**
+   * Scenes name their objects; ids are generated unless the JSON sets them
+   */
+  private resolveId(name: string): ObjectId {
+    return this.iso.getObjectByName(name)?.id ?? name;
+  }
+
+  private observe(): Obs {
+    if (this.options.observe) return this.options.observe(this.ctx);
+
+    const obs = this.options.agent
+      ? this.iso.getObservation(this.resolveId(this.options.agent))
+      : null;
+    if (!obs) return new Array(AGENT_OBSERVATION_SIZE).fill(0) as Obs;
+    return [
+      ...obs.position,
+      ...obs.rotation,
+      ...obs.linearVelocity,
+      ...obs.angularVelocity,
+    ] as Obs;
+  }
+
+  private getInfo() {
+    return {
+      stepCount: this.stepCount,
+      tick: this.iso.getTick(),
+      time: this.iso.getTime(),
+    };
+  }
+}
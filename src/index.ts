@@ -1 +1,7 @@
-export * from "./isocard.js";
\ No newline at end of file
+export * from "./isocard.js";
+export * from "./recorder.js";
+export * from "./validate.js";
+export * from "./patch.js";
+export * from "./render-target.js";
+export * from "./env.js";
+export * from "./vector-env.js";
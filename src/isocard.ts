@@ -1,7 +1,29 @@
+import { SimulationRecorder, type ReplayActionType } from "./recorder.js";
+import { formatSceneIssue, validateScene } from "./validate.js";
+import type { ScenePatch, ScenePatchOp } from "./patch.js";
+import {
+  createWebGLRenderTarget,
+  encodePNG,
+  type RenderedPixels,
+  type RenderTarget,
+} from "./render-target.js";
+
 // Soft interfaces to keep TS happy without going hard on types
 type AnyRecord = Record<string, any>;
 
-interface CameraConfig {
+/** Unique per IsoCard: the entry's `id`, or generated when it has none */
+export type ObjectId = string;
+
+/**
+ * What addObject() does when an entry's name is already taken:
+ * "error" refuses it, "rename" appends a number, "replace" removes the old object
+ */
+export type DuplicateNamePolicy = "error" | "rename" | "replace";
+
+/** Decimal integer (preferred in JSON) or any string THREE.Color accepts */
+export type ColorValue = number | string;
+
+export interface CameraConfig {
   position: [number, number, number];
   lookAt?: [number, number, number];
   fov?: number;
@@ -12,7 +34,8 @@ interface CameraConfig {
   orbitEnabled?: boolean;
 }
 
-interface MeshObj {
+/** Shape format of createMeshFromObj(); boxes use `halfExtent` */
+export interface MeshObj {
   shape: AnyRecord;
   material?: AnyRecord;
   color?: number;
@@ -20,14 +43,807 @@ interface MeshObj {
   rot: [number, number, number, number]; // quaternion
 }
 
-type PhysicsConfig = {
+export type BoxShape = {
+  type: "box";
+  width?: number;
+  height?: number;
+  depth?: number;
+  widthSegments?: number;
+  heightSegments?: number;
+  depthSegments?: number;
+};
+
+export type SphereShape = {
+  type: "sphere";
+  radius?: number;
+  widthSegments?: number;
+  heightSegments?: number;
+  phiStart?: number;
+  phiLength?: number;
+  thetaStart?: number;
+  thetaLength?: number;
+};
+
+export type PlaneShape = {
+  type: "plane";
+  width?: number;
+  height?: number;
+  widthSegments?: number;
+  heightSegments?: number;
+};
+
+export type CylinderShape = {
+  type: "cylinder";
+  radiusTop?: number;
+  radiusBottom?: number;
+  height?: number;
+  radialSegments?: number;
+  heightSegments?: number;
+  openEnded?: boolean;
+  thetaStart?: number;
+  thetaLength?: number;
+};
+
+export type ConeShape = {
+  type: "cone";
+  radius?: number;
+  height?: number;
+  radialSegments?: number;
+  heightSegments?: number;
+  openEnded?: boolean;
+  thetaStart?: number;
+  thetaLength?: number;
+};
+
+export type TorusShape = {
+  type: "torus";
+  radius?: number;
+  tube?: number;
+  radialSegments?: number;
+  tubularSegments?: number;
+  arc?: number;
+};
+
+export type CircleShape = {
+  type: "circle";
+  radius?: number;
+  segments?: number;
+  thetaStart?: number;
+  thetaLength?: number;
+};
+
+export type RingShape = {
+  type: "ring";
+  innerRadius?: number;
+  outerRadius?: number;
+  thetaSegments?: number;
+  phiSegments?: number;
+  thetaStart?: number;
+  thetaLength?: number;
+};
+
+export type PolyhedronShape = {
+  type: "dodecahedron" | "icosahedron" | "octahedron" | "tetrahedron";
+  radius?: number;
+  detail?: number;
+};
+
+export type TorusKnotShape = {
+  type: "torusknot";
+  radius?: number;
+  tube?: number;
+  tubularSegments?: number;
+  radialSegments?: number;
+  p?: number;
+  q?: number;
+};
+
+export type CapsuleShape = {
+  type: "capsule";
+  radius?: number;
+  height?: number;
+  capSegments?: number;
+  radialSegments?: number;
+};
+
+/** Ground on the XZ plane, centered on the object's position */
+export type HeightfieldShape = {
+  type: "heightfield";
+  width?: number;
+  depth?: number;
+  /** Square grid, flat or as rows running along +Z */
+  heights?: number[] | number[][];
+  /** Samples per side when generating from noise */
+  sampleCount?: number;
+  noise?: {
+    amplitude?: number;
+    frequency?: number;
+    octaves?: number;
+    seed?: number;
+  };
+};
+
+export type ShapeConfig =
+  | BoxShape
+  | SphereShape
+  | PlaneShape
+  | CylinderShape
+  | ConeShape
+  | TorusShape
+  | CircleShape
+  | RingShape
+  | PolyhedronShape
+  | TorusKnotShape
+  | CapsuleShape
+  | HeightfieldShape;
+
+type MaterialBase = {
+  color?: ColorValue;
+  /** THREE.FrontSide, BackSide or DoubleSide */
+  side?: number;
+  transparent?: boolean;
+  opacity?: number;
+  wireframe?: boolean;
+  visible?: boolean;
+  /** THREE.Texture */
+  map?: any;
+};
+
+type LitMaterialBase = MaterialBase & {
+  emissive?: ColorValue;
+  roughness?: number;
+  metalness?: number;
+};
+
+export type MaterialConfig =
+  | (MaterialBase & {
+      type: "basic" | "normal" | "depth" | "sprite" | "shadow";
+    })
+  | (MaterialBase & {
+      /** The default */
+      type?: "phong";
+      specular?: ColorValue;
+      shininess?: number;
+      emissive?: ColorValue;
+    })
+  | (MaterialBase & { type: "lambert"; emissive?: ColorValue })
+  | (LitMaterialBase & { type: "standard"; envMapIntensity?: number })
+  | (LitMaterialBase & {
+      type: "physical";
+      clearcoat?: number;
+      clearcoatRoughness?: number;
+      sheen?: number;
+    })
+  | (MaterialBase & { type: "toon"; gradientMap?: any })
+  | (MaterialBase & { type: "linebasic"; linewidth?: number })
+  | (MaterialBase & {
+      type: "linedashed";
+      linewidth?: number;
+      scale?: number;
+      dashSize?: number;
+      gapSize?: number;
+    })
+  | (MaterialBase & {
+      type: "points";
+      size?: number;
+      sizeAttenuation?: boolean;
+    });
+
+export type PhysicsConfig = {
   motionType?: "static" | "dynamic" | "kinematic";
   mass?: number;
   friction?: number;
   restitution?: number;
-  [k: string]: any;
+  linearDamping?: number;
+  angularDamping?: number;
+  /** Multiplier on world gravity; 0 makes the body float */
+  gravityFactor?: number;
+  /** Initial velocities; angular in radians per second */
+  linearVelocity?: Vec3Tuple;
+  angularVelocity?: Vec3Tuple;
+  allowSleeping?: boolean;
+  /** "linearCast" enables continuous collision detection for fast bodies */
+  motionQuality?: "discrete" | "linearCast";
+  /** Shift of the center of mass from the shape's own, in local space */
+  centerOfMassOffset?: Vec3Tuple;
+  /** Principal moments of inertia, replacing the ones computed from the shape */
+  inertia?: Vec3Tuple;
+  maxLinearVelocity?: number;
+  /** Radians per second */
+  maxAngularVelocity?: number;
+  /** Axes the body may move along; "plane2D" keeps it in the XY plane */
+  allowedDOFs?: SixDOFAxis[] | "plane2D";
+  /** Collision shape; "auto" picks the closest match for the geometry */
+  collider?: "auto" | "box" | "convexHull" | "mesh";
+  /** Compound shape used when the object has children; "mutable" allows runtime edits */
+  compound?: "static" | "mutable";
+  /** Detect overlaps without colliding; sensors are static unless kinematic */
+  isSensor?: boolean;
+  /** Makes the object a gravity attractor that pulls dynamic bodies toward it */
+  gravityStrength?: number;
+  gravityFalloff?: GravityFalloff;
+  gravityRadius?: number;
+  /** Name of a group in the scene's collisionGroups; "default" when unset */
+  collisionGroup?: string;
+};
+
+/**
+ * Group name -> the groups it collides with. Two bodies collide only if each
+ * group allows the other; groups without an entry collide with everything.
+ */
+export type CollisionGroupsConfig = Record<string, string[]>;
+
+export type SpringConfig = {
+  frequency?: number;
+  stiffness?: number;
+  damping?: number;
+};
+
+export type MotorConfig = SpringConfig & {
+  state?: "off" | "velocity" | "position";
+  /** Velocity or position target; angles in degrees */
+  target?: number;
+  maxForce?: number;
+  maxTorque?: number;
+};
+
+export type SixDOFAxis =
+  | "translationX"
+  | "translationY"
+  | "translationZ"
+  | "rotationX"
+  | "rotationY"
+  | "rotationZ";
+
+export type MotionRepeat = {
+  /** Start over from the beginning after reaching the end */
+  loop?: boolean;
+  /** Run back to the start after reaching the end, forever */
+  pingPong?: boolean;
+};
+
+/**
+ * Scripted movement, relative to the object's pos/euler, for kinematic bodies
+ */
+export type MotionConfig = {
+  /** Waypoints in the same space as `pos`, visited at `speed` units per second */
+  path?: MotionRepeat & { points: Vec3Tuple[]; speed?: number };
+  /** Sine offset along `axis`; frequency in Hz, phase in degrees */
+  oscillate?: {
+    axis?: Vec3Tuple;
+    amplitude?: number;
+    frequency?: number;
+    phase?: number;
+  };
+  /** Spin about a local axis in degrees per second, optionally limited to `angle` */
+  rotate?: MotionRepeat & { axis?: Vec3Tuple; speed?: number; angle?: number };
+  /** Seconds into the motion to start from */
+  time?: number;
+};
+
+type SensorBase = {
+  /** Key in getSensorReadings(); defaults to the type, numbered when repeated */
+  name?: string;
+  /** Samples per second; every physics step when unset */
+  hz?: number;
+  /** Mount position and rotation (degrees) in the object's local frame */
+  offset?: Vec3Tuple;
+  euler?: Vec3Tuple;
+};
+
+/** Planar scan about the sensor's Y axis, centered on its forward (-Z) axis */
+export type LidarSensorConfig = SensorBase & {
+  type: "lidar";
+  rays?: number;
+  /** Degrees */
+  fov?: number;
+  range?: number;
+};
+
+/** Grid of depths seen by a pinhole camera looking along the sensor's -Z */
+export type DepthSensorConfig = SensorBase & {
+  type: "depth";
+  width?: number;
+  height?: number;
+  /** Vertical field of view in degrees */
+  fov?: number;
+  range?: number;
+};
+
+export type ImuSensorConfig = SensorBase & { type: "imu" };
+
+/** Bodies touching the object's body */
+export type ContactSensorConfig = SensorBase & { type: "contact" };
+
+/** Bodies within `range` of the sensor */
+export type ProximitySensorConfig = SensorBase & {
+  type: "proximity";
+  range?: number;
+};
+
+export type SensorConfig =
+  | LidarSensorConfig
+  | DepthSensorConfig
+  | ImuSensorConfig
+  | ContactSensorConfig
+  | ProximitySensorConfig;
+
+export type GravityFalloff = "inverseSquare" | "linear" | "constant";
+
+export type GravityAttractorConfig = {
+  /** Fixed world position, or the name (or id) of an object to follow */
+  position?: Vec3Tuple;
+  object?: string;
+  /** Acceleration at distance 1 (inverseSquare) or within range (linear, constant) */
+  strength: number;
+  falloff?: GravityFalloff;
+  /** No pull beyond this distance; linear falloff fades to zero here */
+  radius?: number;
+};
+
+export type GravityZoneConfig = {
+  shape: "box" | "sphere";
+  center: Vec3Tuple;
+  /** Full box extents */
+  size?: Vec3Tuple;
+  radius?: number;
+  /** Gravity inside the zone, in place of the uniform vector */
+  vector: Vec3Tuple;
+};
+
+export type GravityConfig = {
+  /** "radial" turns off uniform gravity and pulls toward the attractors */
+  type?: "uniform" | "radial";
+  vector?: Vec3Tuple;
+  /** Radial pull used when the scene defines no attractors */
+  center?: Vec3Tuple;
+  strength?: number;
+  /** Default falloff for attractors */
+  falloff?: GravityFalloff;
+  attractors?: GravityAttractorConfig[];
+  /** Checked in order; the first zone containing a body applies */
+  zones?: GravityZoneConfig[];
+};
+
+export type ConstraintConfig = {
+  type: "fixed" | "point" | "hinge" | "slider" | "distance" | "cone" | "sixDOF";
+  name?: string;
+  /** Names (or ids) of the two constrained objects */
+  bodyA: string;
+  bodyB: string;
+  /** World-space anchor; defaults to the midpoint between the bodies */
+  point?: [number, number, number];
+  pointA?: [number, number, number];
+  pointB?: [number, number, number];
+  axis?: [number, number, number];
+  normal?: [number, number, number];
+  /** Degrees for hinge, units for slider */
+  limits?: { min: number; max: number };
+  minDistance?: number;
+  maxDistance?: number;
+  halfConeAngle?: number;
+  maxFriction?: number;
+  spring?: SpringConfig;
+  motor?: MotorConfig;
+  axes?: Partial<Record<SixDOFAxis, "free" | "fixed" | [number, number]>>;
+  springs?: Partial<Record<SixDOFAxis, SpringConfig>>;
+  motors?: Partial<Record<SixDOFAxis, MotorConfig>>;
+  enabled?: boolean;
+};
+
+type EntryBase = {
+  /** Kept by exportScene(); generated when missing */
+  id?: ObjectId;
+  /** Display name, unique within the scene; parents and constraints refer to it */
+  name?: string;
+  layer?: string;
+  enabled?: boolean;
+  pos?: Vec3Tuple;
+  /** Quaternion [x, y, z, w] or Euler radians [x, y, z] */
+  rot?: Vec3Tuple | QuatTuple;
+  /** Degrees; preferred over rot */
+  euler?: Vec3Tuple;
+};
+
+type ObjectEntryBase = EntryBase & {
+  scale?: Vec3Tuple;
+  /** Name of the object this one is attached to */
+  parent?: string;
+  /** Added after this entry with `parent` set to its name */
+  children?: ObjectEntry[];
+  physics?: PhysicsConfig;
+  motion?: MotionConfig;
+  /** Sampled after every physics step; see getSensorReadings() */
+  sensors?: SensorConfig[];
+  /** Registered controller type, optionally with parameters for its factory */
+  controller?: string | ({ type: string } & Record<string, any>);
+};
+
+export type MeshEntry = ObjectEntryBase & {
+  type?: "mesh";
+  shape: ShapeConfig;
+  material?: MaterialConfig;
+  /** Color of the default phong material when there is no `material` */
+  color?: ColorValue;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+};
+
+export type GroupEntry = ObjectEntryBase & {
+  type: "group";
+};
+
+export type LightEntry = EntryBase & {
+  type: "light";
+  lightType: "directional" | "ambient" | "point" | "spot" | "hemisphere";
+  color?: ColorValue;
+  intensity?: number;
+  distance?: number;
+  decay?: number;
+  /** Spot cone angle in radians */
+  angle?: number;
+  penumbra?: number;
+  skyColor?: ColorValue;
+  groundColor?: ColorValue;
+  castShadow?: boolean;
+  target?: Vec3Tuple;
+};
+
+export type HelperEntry = EntryBase & {
+  type: "helper";
+  helperType: "grid" | "axes";
+  size?: number;
+  divisions?: number;
+  colorCenterLine?: ColorValue;
+  colorGrid?: ColorValue;
+};
+
+/**
+ * Moves a camera with an object every step. "firstPerson" rides at `offset`
+ * in the object's frame, "chase" sits at `offset` in its frame looking at it,
+ * and "follow" keeps a world-space `offset` looking at it.
+ */
+export type CameraRigConfig = {
+  /** Name (or id) of the object to follow */
+  target: string;
+  mode?: "follow" | "chase" | "firstPerson";
+  offset?: Vec3Tuple;
+  /** Point looked at, relative to the target (chase and follow) */
+  lookAtOffset?: Vec3Tuple;
+  /** Seconds to catch up with the target; 0 sticks to it */
+  smoothing?: number;
+};
+
+export type CameraEntry = EntryBase & {
+  type: "camera";
+  cameraType?: "perspective" | "orthographic";
+  /** Vertical field of view in degrees (perspective) */
+  fov?: number;
+  /** Height of the view in world units (orthographic) */
+  size?: number;
+  near?: number;
+  far?: number;
+  lookAt?: Vec3Tuple;
+  /** Name of the object this one is attached to */
+  parent?: string;
+  rig?: CameraRigConfig;
+};
+
+export type FogConfig = {
+  color?: ColorValue;
+  near?: number;
+  far?: number;
+};
+
+export type SceneSettingsEntry = EntryBase & {
+  type: "scene";
+  background?: ColorValue | null;
+  fog?: FogConfig | null;
+  gravity?: GravityConfig;
+  collisionGroups?: CollisionGroupsConfig;
+  /** Default view; unused while a camera entry is active */
+  camera?: Partial<CameraConfig>;
+  /** Name (or id) of the camera entry to view the scene through */
+  activeCamera?: string;
+};
+
+/** Entries that become objects in the scene */
+export type ObjectEntry =
+  MeshEntry | GroupEntry | LightEntry | HelperEntry | CameraEntry;
+
+export type SceneEntry = ObjectEntry | SceneSettingsEntry;
+
+/** Fields updateObject() can change; anything else is kept */
+export type ObjectUpdate = Partial<ObjectEntry>;
+
+export type LayerConfig = {
+  visible: boolean;
+  opacity: number;
+};
+
+/** Format of exportSceneWithConstraints() and loadSceneWithConstraints() */
+export type SceneExport = {
+  scene: SceneEntry[];
+  constraints?: ConstraintConfig[];
+  layers?: Record<string, LayerConfig>;
+};
+
+/** An object in the scene with the entry it was built from */
+export type SceneObject = {
+  id: ObjectId;
+  /** THREE.Object3D */
+  threeObj: any;
+  config: ObjectEntry;
+};
+
+export type SelectCallback = (id: ObjectId | null) => void;
+
+export type Vec3Tuple = [number, number, number];
+export type QuatTuple = [number, number, number, number];
+
+export type BodyState = {
+  position: Vec3Tuple;
+  /** Quaternion [x, y, z, w] */
+  rotation: QuatTuple;
+  linearVelocity: Vec3Tuple;
+  /** Radians per second */
+  angularVelocity: Vec3Tuple;
+  sleeping: boolean;
+};
+
+/** Limits what raycasts, shape casts and overlap queries can hit */
+export type QueryFilter = {
+  /** Objects to skip, e.g. the one doing the sensing */
+  ignore?: ObjectId[];
+  /** Only hit bodies this collision group collides with */
+  collisionGroup?: string;
+  /** Sensor bodies are skipped unless this is set */
+  includeSensors?: boolean;
+  accept?: (id: ObjectId) => boolean;
+};
+
+export type RaycastHit = {
+  id: ObjectId;
+  point: Vec3Tuple;
+  /** Surface normal at the hit point */
+  normal: Vec3Tuple;
+  /** 0 at the origin, 1 at maxDistance */
+  fraction: number;
+  distance: number;
+};
+
+export type OverlapHit = {
+  id: ObjectId;
+  /** Deepest point of the object inside the query shape */
+  point: Vec3Tuple;
+  /** Direction that pushes the object out of the query shape */
+  normal: Vec3Tuple;
+  depth: number;
+};
+
+type SensorReadingBase = {
+  name: string;
+  /** Tick and time of the step the sample was taken after */
+  tick: number;
+  time: number;
+};
+
+export type LidarReading = SensorReadingBase & {
+  type: "lidar";
+  /** Degrees from the forward axis, counterclockwise seen from above */
+  angleMin: number;
+  angleIncrement: number;
+  /** Infinity where nothing is in range */
+  ranges: number[];
+  hits: (ObjectId | null)[];
+};
+
+export type DepthReading = SensorReadingBase & {
+  type: "depth";
+  width: number;
+  height: number;
+  /** Row by row from the top left, measured along the view axis; Infinity where nothing is in range */
+  depths: number[];
+};
+
+export type ImuReading = SensorReadingBase & {
+  type: "imu";
+  /** World-space quaternion [x, y, z, w] */
+  orientation: QuatTuple;
+  /** Sensor frame, radians per second */
+  angularVelocity: Vec3Tuple;
+  /** Sensor frame; like a real accelerometer it reads +g at rest and 0 in free fall */
+  linearAcceleration: Vec3Tuple;
+};
+
+export type ContactReading = SensorReadingBase & {
+  type: "contact";
+  /** Normals point from the sensor's object towards the other one */
+  contacts: {
+    id: ObjectId;
+    point: Vec3Tuple;
+    normal: Vec3Tuple;
+    penetrationDepth: number;
+  }[];
+};
+
+export type ProximityReading = SensorReadingBase & {
+  type: "proximity";
+  /** Nearest first */
+  detected: ObjectId[];
+  /** To the nearest surface; Infinity when nothing is detected */
+  distance: number;
+};
+
+export type SensorReading =
+  LidarReading | DepthReading | ImuReading | ContactReading | ProximityReading;
+
+export type ControllerObservation = BodyState & {
+  id: ObjectId;
+  tick: number;
+  time: number;
+};
+
+export type ControllerAction = {
+  /** Held and re-applied every step until the next action */
+  force?: Vec3Tuple;
+  torque?: Vec3Tuple;
+  /** Applied once */
+  impulse?: Vec3Tuple;
+  angularImpulse?: Vec3Tuple;
+  linearVelocity?: Vec3Tuple;
+  angularVelocity?: Vec3Tuple;
+  /** Constraint name -> motor target, or per-axis targets for six-DOF */
+  motorTargets?: Record<string, number | Partial<Record<SixDOFAxis, number>>>;
+};
+
+export type Controller = (
+  observation: ControllerObservation,
+  iso: IsoCard
+) => ControllerAction | void;
+
+export type ControllerFactory = (params: Record<string, any>) => Controller;
+
+export type SceneLoadOptions = {
+  /** Refuse to load a scene that validateScene() reports errors for */
+  strict?: boolean;
 };
 
+export type CollisionEventType = "enter" | "stay" | "exit";
+
+export type CollisionEvent = {
+  type: CollisionEventType;
+  objectA: ObjectId;
+  objectB: ObjectId;
+  /** Average world-space contact point */
+  point: Vec3Tuple;
+  /** World-space normal pointing from objectA towards objectB */
+  normal: Vec3Tuple;
+  penetrationDepth: number;
+  /** Speed of objectB relative to objectA at the contact point */
+  relativeSpeed: number;
+  /** Tick of the step the event happened in */
+  tick: number;
+};
+
+export type CollisionCallback = (event: CollisionEvent) => void;
+
+export type TriggerCallback = (sensorId: ObjectId, otherId: ObjectId) => void;
+
+type TriggerEvent = {
+  type: "enter" | "exit";
+  sensorId: ObjectId;
+  otherId: ObjectId;
+};
+
+type ContactData = Pick<
+  CollisionEvent,
+  "point" | "normal" | "penetrationDepth" | "relativeSpeed"
+>;
+
+const defaultGravity = (): GravityConfig => ({
+  type: "uniform",
+  vector: [0, -9.81, 0],
+});
+
+/** Behind and above for chase and follow; cameras look along -Z */
+const DEFAULT_RIG_OFFSETS: Record<CameraRigConfig["mode"], Vec3Tuple> = {
+  firstPerson: [0, 0, 0],
+  chase: [0, 2, 5],
+  follow: [0, 5, 10],
+};
+
+/**
+ * Seeded lattice hash in [0, 1) so generated terrain is identical everywhere
+ */
+const hash2D = (x: number, z: number, seed: number): number => {
+  let h = Math.imul(x, 374761393) ^ Math.imul(z, 668265263) ^ seed;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const valueNoise2D = (x: number, z: number, seed: number): number => {
+  const x0 = Math.floor(x);
+  const z0 = Math.floor(z);
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  const tx = smooth(x - x0);
+  const tz = smooth(z - z0);
+  const a = hash2D(x0, z0, seed);
+  const b = hash2D(x0 + 1, z0, seed);
+  const c = hash2D(x0, z0 + 1, seed);
+  const d = hash2D(x0 + 1, z0 + 1, seed);
+  return a + (b - a) * tx + (c - a) * tz + (a - b - c + d) * tx * tz;
+};
+
+/**
+ * Height samples of a heightfield shape, row-major with rows along +Z.
+ * Uses `heights` (flat N*N or N rows of N) when given, else fractal noise.
+ */
+const getHeightfieldSamples = (
+  shape: AnyRecord
+): { sampleCount: number; heights: number[] } => {
+  if (Array.isArray(shape.heights) && shape.heights.length > 0) {
+    const heights: number[] = shape.heights.flat();
+    const sampleCount = Math.round(Math.sqrt(heights.length));
+    if (sampleCount >= 2 && sampleCount * sampleCount === heights.length) {
+      return { sampleCount, heights };
+    }
+    console.warn("Heightfield heights must be a square grid, using noise");
+  }
+
+  const sampleCount = Math.max(2, Math.floor(shape.sampleCount || 33));
+  const {
+    amplitude = 1,
+    frequency = 0.1,
+    octaves = 4,
+    seed = 0,
+  } = shape.noise || {};
+  const width = shape.width || 10;
+  const depth = shape.depth || 10;
+
+  const heights = [];
+  for (let row = 0; row < sampleCount; row++) {
+    for (let col = 0; col < sampleCount; col++) {
+      const x = (col / (sampleCount - 1)) * width;
+      const z = (row / (sampleCount - 1)) * depth;
+      let h = 0;
+      let amp = 1;
+      let freq = frequency;
+      let norm = 0;
+      for (let o = 0; o < octaves; o++) {
+        h += amp * valueNoise2D(x * freq, z * freq, seed + o * 1013);
+        norm += amp;
+        amp *= 0.5;
+        freq *= 2;
+      }
+      heights.push((h / norm) * amplitude);
+    }
+  }
+  return { sampleCount, heights };
+};
+
+/**
+ * Distance along a track of `length` after travelling `distance`: clamped at
+ * the end, wrapped when looping, or bouncing back and forth for ping-pong
+ */
+const getMotionProgress = (
+  distance: number,
+  length: number,
+  repeat: MotionRepeat
+): number => {
+  if (length <= 0) return 0;
+  if (repeat.pingPong) {
+    const d = distance % (2 * length);
+    return d <= length ? d : 2 * length - d;
+  }
+  if (repeat.loop) return distance % length;
+  return Math.min(distance, length);
+};
+
+// `window` does not exist on Node/Bun servers
+const globalWindow: AnyRecord =
+  typeof window !== "undefined" ? (window as AnyRecord) : {};
+
 // Dependency injection so we don’t import packages
 export type IsoDeps = {
   THREE: any;
@@ -39,13 +855,37 @@ export type IsoDeps = {
   joltInit?: () => Promise<any>;
   /** Back-compat: your existing loader (treated the same as joltInit) */
   loadJolt?: (type?: string) => Promise<any>;
+  /** THREE.WebGLRenderer for renderToPixels() on servers, e.g. on a headless GL context */
+  renderer?: any;
+  /** Custom offscreen renderer, e.g. a software rasterizer; preferred over `renderer` */
+  renderTarget?: RenderTarget;
 };
 
 export class IsoCard {
   // Static constants
+  // Every collision group gets a non-moving and a moving object layer;
+  // group 0 ("default") keeps the original two layers
   static LAYER_NON_MOVING: number = 0;
   static LAYER_MOVING: number = 1;
-  static NUM_OBJECT_LAYERS: number = 2;
+  static MAX_COLLISION_GROUPS: number = 16;
+  static NUM_OBJECT_LAYERS: number = 2 * IsoCard.MAX_COLLISION_GROUPS;
+  static CONSTRAINT_TYPES: ConstraintConfig["type"][] = [
+    "fixed",
+    "point",
+    "hinge",
+    "slider",
+    "distance",
+    "cone",
+    "sixDOF",
+  ];
+  static SIX_DOF_AXES: SixDOFAxis[] = [
+    "translationX",
+    "translationY",
+    "translationZ",
+    "rotationX",
+    "rotationY",
+    "rotationZ",
+  ];
 
   // Injected libs
   private THREE: any;
@@ -58,6 +898,7 @@ export class IsoCard {
   private scene: any;
   private camera: any;
   private renderer: any;
+  private renderTarget: RenderTarget | null = null;
   private controls: any;
   private stats: any;
 
@@ -65,8 +906,10 @@ export class IsoCard {
   private isPreview: boolean = false;
   private isServer: boolean = false;
   private sceneConfig: any = {};
-  private layers: Record<string, { visible: boolean; opacity: number }> = {};
-  private objects: Array<{ id: any; threeObj: any; config: any }> = [];
+  private layers: Record<string, LayerConfig> = {};
+  private objects: Array<{ id: ObjectId; threeObj: any; config: any }> = [];
+  private objectIdCounter: number = 0;
+  private duplicateNamePolicy: DuplicateNamePolicy = "rename";
 
   // Selection / input
   private selectedHelper: any = null;
@@ -80,16 +923,33 @@ export class IsoCard {
   private bodyInterface: any = null;
   private jInterface: any = null;
   private dynamicObjects: any[] = [];
+  private tempVec3: any = null;
+  private tempRVec3: any = null;
+  private tempQuat: any = null;
   private isPhysicsRunning: boolean = false;
   private time: number = 0;
+  private tick: number = 0;
+  private fixedTimeStep: number = 1 / 60;
+  private accumulator: number = 0;
+  private maxStepsPerAdvance: number = 8;
   savedTransforms = new Map<any, any>();
-  constraints: any[] = [];
-
-  // Gravity & attractors
+  constraints: Array<{
+    name: string;
+    config: ConstraintConfig;
+    constraint: any;
+  }> = [];
+  private constraintNameCounter: number = 0;
+
+  // Recording
+  private recorder: SimulationRecorder | null = null;
+  private recordSuppressed: number = 0;
+
+  // Gravity fields; attractors and zones live in sceneConfig.gravity
   private gravityType: "uniform" | "radial" = "uniform";
-  private gravityStrength: number = 1000;
-  private gravityCenter: any;
-  private attractors: { position: any; strength: number }[] = [];
+
+  // Collision groups; the pairs live in sceneConfig.collisionGroups
+  private objectLayerFilter: any = null;
+  private collisionGroupIndex = new Map<string, number>([["default", 0]]);
 
   // Camera save/lock
   private cameraLocked: boolean = false;
@@ -102,10 +962,48 @@ export class IsoCard {
   // Timing
   private clock: any;
   private actionsPerSecond: number = 1;
-  private lastActionTime: number = 0;
+  private lastActionTime: number = -Infinity;
+
+  // Controllers / AI policies
+  private controllers = new Map<
+    any,
+    { controller: Controller; action: ControllerAction | null }
+  >();
+  private controllerTypes = new Map<string, ControllerFactory>();
+  private heldActions = new Map<any, ControllerAction>();
+  private controllersEnabled: boolean = true;
+
+  // Contacts, keyed by body pair; each pair can touch on several sub shapes
+  private contactListener: any = null;
+  private activeContacts = new Map<
+    string,
+    {
+      objectA: ObjectId;
+      objectB: ObjectId;
+      bodies: [any, any];
+      subShapes: Set<string>;
+      contact: ContactData;
+      enteredTick: number;
+      /** Jolt forgot the contact when both bodies fell asleep */
+      asleep: boolean;
+      /** Set when one of the bodies is a sensor */
+      trigger: { sensorId: ObjectId; otherId: ObjectId } | null;
+    }
+  >();
+  private pendingCollisionEvents: CollisionEvent[] = [];
+  private collisionEvents: CollisionEvent[] = [];
+  private pendingTriggerEvents: TriggerEvent[] = [];
+  private triggerEvents: TriggerEvent[] = [];
+  private triggerCallbacks: Record<TriggerEvent["type"], Set<TriggerCallback>> =
+    { enter: new Set(), exit: new Set() };
+  private collisionCallbacks: Record<
+    CollisionEventType,
+    Set<CollisionCallback>
+  > = { enter: new Set(), stay: new Set(), exit: new Set() };
+  private objectCollisionCallbacks = new Map<any, Set<CollisionCallback>>();
 
   // Callbacks
-  private onSelectCallback?: (id: any) => void;
+  private onSelectCallback?: SelectCallback;
   private onObjectsChangeCallback?: () => void;
   private onExampleUpdate?: (time: number, deltaTime: number) => void;
 
@@ -119,16 +1017,21 @@ export class IsoCard {
     this.OrbitControls =
       deps.OrbitControls ??
       (this.THREE as AnyRecord).OrbitControls ??
-      (window as AnyRecord).OrbitControls;
-    this.Stats = deps.Stats ?? (window as AnyRecord).Stats;
+      globalWindow.OrbitControls;
+    this.Stats = deps.Stats ?? globalWindow.Stats;
     this.jolt = deps.jolt ?? null;
     this.loadJolt =
       deps.joltInit ??
       (deps.loadJolt ? () => deps.loadJolt!("standard") : undefined) ??
-      ((window as AnyRecord).loadJolt
-        ? () => (window as AnyRecord).loadJolt("standard")
+      (globalWindow.loadJolt
+        ? () => globalWindow.loadJolt("standard")
         : undefined);
     if (!this.THREE) throw new Error("THREE.js not provided");
+    this.renderTarget =
+      deps.renderTarget ??
+      (deps.renderer
+        ? createWebGLRenderTarget(this.THREE, deps.renderer)
+        : null);
 
     this.container = container;
     this.isPreview = !!opts.isPreview;
@@ -136,15 +1039,13 @@ export class IsoCard {
 
     // base scene
     this.scene = new this.THREE.Scene();
-    this.gravityCenter = new this.THREE.Vector3(0, 0, 0);
-    this.attractors = [];
 
     // default scene config
     this.sceneConfig = {
       background: null,
       fog: null,
       environment: null,
-      gravity: { type: "uniform", vector: [0, -9.81, 0] },
+      gravity: defaultGravity(),
       camera: {
         position: [5, 5, 5],
         lookAt: [0, 0, 0],
@@ -219,15 +1120,15 @@ export class IsoCard {
     this.renderSync = this.renderSync.bind(this);
   }
 
-  setOnSelectCallback(cb) {
+  setOnSelectCallback(cb: SelectCallback) {
     this.onSelectCallback = cb;
   }
 
-  setOnObjectsChangeCallback(cb) {
+  setOnObjectsChangeCallback(cb: () => void) {
     this.onObjectsChangeCallback = cb;
   }
 
-  onDocumentClick(event) {
+  onDocumentClick(event: MouseEvent) {
     if (this.isPreview) return;
     console.log("Click detected on canvas");
     event.preventDefault();
@@ -269,7 +1170,7 @@ export class IsoCard {
     }
   }
 
-  selectObject(id) {
+  selectObject(id: ObjectId | null) {
     if (this.selectedHelper) {
       this.scene.remove(this.selectedHelper);
       this.selectedHelper = null;
@@ -281,7 +1182,22 @@ export class IsoCard {
     }
   }
 
-  addObject(config) {
+  addObject(entry: SceneEntry): ObjectId | null {
+    // Each entry type reads its own fields below
+    let config: AnyRecord = entry;
+    if (config.type !== "scene") {
+      // Resolved before recording so a replay gets the same ids and names
+      const replaced = [];
+      config = this.resolveObjectIdentity(
+        config,
+        new Set(),
+        new Set(),
+        replaced
+      );
+      if (!config) return null;
+      replaced.forEach((item) => this.removeObject(item.id));
+    }
+    this.recordAction("addObject", [config]);
     try {
       let addedObj = null;
 
@@ -302,7 +1218,10 @@ export class IsoCard {
 
       if (config.type === "scene") {
         if (config.background !== undefined) {
-          this.scene.background = new this.THREE.Color(config.background);
+          this.scene.background =
+            config.background === null
+              ? null
+              : new this.THREE.Color(config.background);
           this.sceneConfig.background = config.background;
         }
         if (config.fog) {
@@ -312,16 +1231,28 @@ export class IsoCard {
             config.fog.far || 1000
           );
           this.sceneConfig.fog = config.fog;
+        } else if (config.fog === null) {
+          this.scene.fog = null;
+          this.sceneConfig.fog = null;
         }
 
         if (config.gravity) {
           this.setGravityConfig(config.gravity);
         }
 
+        if (config.collisionGroups) {
+          this.setCollisionGroups(config.collisionGroups);
+        }
+
         if (config.camera) {
           this.setCameraConfig(config.camera);
         }
 
+        // The camera itself may come later in the scene
+        if (config.activeCamera !== undefined) {
+          this.sceneConfig.activeCamera = config.activeCamera ?? undefined;
+        }
+
         if (this.onObjectsChangeCallback) this.onObjectsChangeCallback();
         return null;
       } else if (config.type === "light") {
@@ -437,23 +1368,6 @@ export class IsoCard {
         if (config.receiveShadow) mesh.receiveShadow = true;
 
         addedObj = mesh;
-
-        if (
-          config.shape?.type === "sphere" &&
-          config.physics?.motionType === "static" &&
-          config.physics?.gravityStrength
-        ) {
-          this.attractors.push({
-            position: addedObj.position.clone(),
-            strength: config.physics.gravityStrength,
-          });
-          console.log(
-            "Added attractor at",
-            addedObj.position,
-            "with strength",
-            config.physics.gravityStrength
-          );
-        }
       } else if (config.type === "group") {
         const group = new this.THREE.Group();
         if (config.pos) group.position.fromArray(config.pos);
@@ -463,26 +1377,46 @@ export class IsoCard {
         }
         if (config.scale) group.scale.fromArray(config.scale);
         addedObj = group;
+      } else if (config.type === "camera") {
+        addedObj = this.createCamera(config as CameraEntry);
       } else {
         console.warn("Unsupported object type:", config.type);
         return null;
       }
 
       if (addedObj) {
-        //const id = this.objects.length;
-        const id = config.name;
-        const newConfig = { ...config };
-        if (!newConfig.name)
-          newConfig.name = `${
-            config.shape?.type || config.type || "object"
-          } ${id}`;
+        const id: ObjectId = config.id;
+        const { children, ...newConfig } = config;
 
         // Store layer info
         addedObj.userData.layer = config.layer;
         addedObj.userData.enabled = config.enabled;
         //console.log(this.objects);
-        this.objects.push({ id, threeObj: addedObj, config: newConfig });
-        this.scene.add(addedObj);
+        const item = { id, threeObj: addedObj, config: newConfig };
+        this.objects.push(item);
+        this.attachToParent(item);
+        this.adoptPendingChildren(item);
+        this.attachMotion(item);
+        this.attachSensors(item);
+        this.updateCameraRig(item, 0);
+        if (newConfig.controller) {
+          this.attachConfigController(item);
+        }
+
+        // Nested children are stored flat with a `parent` reference
+        if (Array.isArray(children)) {
+          this.recordSuppressed++;
+          try {
+            children.forEach((child) =>
+              this.addObject({
+                ...child,
+                layer: child.layer ?? newConfig.layer,
+              })
+            );
+          } finally {
+            this.recordSuppressed--;
+          }
+        }
         if (this.onObjectsChangeCallback) this.onObjectsChangeCallback();
         return id;
       }
@@ -492,14 +1426,190 @@ export class IsoCard {
     }
   }
 
-  replaceObject(id, newConfig) {
+  /**
+   * Copy of an entry and its nested children with unique ids and names, or
+   * null when the duplicate-name policy refuses it. Objects the entry takes
+   * the place of under "replace" are collected in `replaced`.
+   */
+  private resolveObjectIdentity(
+    config: AnyRecord,
+    ids: Set<ObjectId>,
+    names: Set<string>,
+    replaced: SceneObject[]
+  ): AnyRecord | null {
+    const resolved = { ...config };
+
+    // The name decides what gets replaced, which frees up its id
+    if (resolved.name) {
+      resolved.name = this.claimName(resolved.name, names, replaced);
+      if (resolved.name === null) return null;
+    }
+
+    if (resolved.id !== undefined && resolved.id !== null) {
+      resolved.id = String(resolved.id);
+      if (
+        ids.has(resolved.id) ||
+        this.findLiveObject((o) => o.id === resolved.id, replaced)
+      ) {
+        console.warn(`Object id ${resolved.id} is already in use`);
+        return null;
+      }
+    } else {
+      resolved.id = this.generateObjectId(ids);
+    }
+    ids.add(resolved.id);
+
+    if (!resolved.name) {
+      resolved.name = this.getUniqueName(
+        `${resolved.shape?.type || resolved.type || "object"} ${resolved.id}`,
+        names,
+        replaced
+      );
+    }
+    names.add(resolved.name);
+
+    if (Array.isArray(resolved.children)) {
+      const children = [];
+      for (const child of resolved.children) {
+        const entry = this.resolveObjectIdentity(
+          { ...child, parent: resolved.name },
+          ids,
+          names,
+          replaced
+        );
+        if (!entry) return null;
+        children.push(entry);
+      }
+      resolved.children = children;
+    }
+    return resolved;
+  }
+
+  /**
+   * Name an object can take under the duplicate-name policy, or null when the
+   * policy refuses a taken one. Without `replaced`, "replace" renames instead.
+   */
+  private claimName(
+    name: string,
+    claimed: Set<string>,
+    replaced: SceneObject[] | null
+  ): string | null {
+    const holder = this.findLiveObject(
+      (o) => o.config.name === name,
+      replaced || []
+    );
+    if (!holder && !claimed.has(name)) return name;
+
+    if (this.duplicateNamePolicy === "error") {
+      console.warn(`An object named ${name} already exists`);
+      return null;
+    }
+    // Names repeated within one entry are numbered even when replacing
+    if (
+      this.duplicateNamePolicy === "replace" &&
+      replaced &&
+      !claimed.has(name)
+    ) {
+      replaced.push(holder);
+      return name;
+    }
+    return this.getUniqueName(name, claimed, replaced || []);
+  }
+
+  /**
+   * The name itself if it's free, otherwise the first free "name 2", "name 3"…
+   */
+  private getUniqueName(
+    name: string,
+    claimed: Set<string> = new Set(),
+    replaced: SceneObject[] = []
+  ): string {
+    const isTaken = (candidate: string) =>
+      claimed.has(candidate) ||
+      !!this.findLiveObject((o) => o.config.name === candidate, replaced);
+    if (!isTaken(name)) return name;
+
+    let n = 2;
+    while (isTaken(`${name} ${n}`)) n++;
+    return `${name} ${n}`;
+  }
+
+  /**
+   * Next counter id not used by an object or by an entry being resolved
+   */
+  private generateObjectId(claimed: Set<ObjectId> = new Set()): ObjectId {
+    let id: ObjectId;
+    do {
+      id = `obj-${++this.objectIdCounter}`;
+    } while (claimed.has(id) || this.getObjectById(id));
+    return id;
+  }
+
+  /**
+   * First object matching, skipping those that are about to be replaced along
+   * with their descendants
+   */
+  private findLiveObject(
+    match: (item: SceneObject) => boolean,
+    replaced: SceneObject[]
+  ): SceneObject | undefined {
+    return this.objects.find((o) => {
+      if (!match(o)) return false;
+      let leaving = replaced.includes(o);
+      o.threeObj.traverseAncestors((ancestor) => {
+        if (replaced.some((r) => r.threeObj === ancestor)) leaving = true;
+      });
+      return !leaving;
+    });
+  }
+
+  /**
+   * Point parents, constraints and attractors at an object's new name
+   */
+  private renameReferences(previous: string, name: string) {
+    this.objects.forEach((o) => {
+      if (o.config.parent === previous) o.config.parent = name;
+    });
+    this.constraints.forEach(({ config }) => {
+      if (config.bodyA === previous) config.bodyA = name;
+      if (config.bodyB === previous) config.bodyB = name;
+    });
+    this.sceneConfig.gravity?.attractors?.forEach((attractor) => {
+      if (attractor.object === previous) attractor.object = name;
+    });
+    this.objects.forEach(({ config }) => {
+      if (config.rig?.target === previous) config.rig.target = name;
+    });
+    if (this.sceneConfig.activeCamera === previous) {
+      this.sceneConfig.activeCamera = name;
+    }
+  }
+
+  replaceObject(id: ObjectId, entry: ObjectEntry): boolean {
+    const newConfig: AnyRecord = entry;
     const index = this.objects.findIndex((o) => o.id === id);
     if (index === -1) return false;
 
     const oldObj = this.objects[index];
 
-    // Remove old object from scene
-    this.scene.remove(oldObj.threeObj);
+    // The replacement keeps the id; a new name must still be free
+    newConfig.id = id;
+    const previousName = oldObj.config.name;
+    const name =
+      newConfig.name ||
+      `${newConfig.shape?.type || newConfig.type || "object"} ${id}`;
+    newConfig.name =
+      name === previousName ? name : this.claimName(name, new Set(), null);
+    if (newConfig.name === null) return false;
+
+    // Child objects move over to the replacement
+    const childObjs = oldObj.threeObj.children.filter((child) =>
+      this.objects.some((o) => o.threeObj === child)
+    );
+
+    // Remove old object and its body
+    this.destroyObjectBody(oldObj);
+    oldObj.threeObj.parent?.remove(oldObj.threeObj);
 
     // Dispose of old geometry and materials
     if (oldObj.threeObj.geometry) oldObj.threeObj.geometry.dispose();
@@ -666,6 +1776,8 @@ export class IsoCard {
       }
       if (newConfig.scale) group.scale.fromArray(newConfig.scale);
       addedObj = group;
+    } else if (newConfig.type === "camera") {
+      addedObj = this.createCamera(newConfig as CameraEntry);
     }
 
     if (addedObj) {
@@ -673,18 +1785,28 @@ export class IsoCard {
       addedObj.userData.layer = newConfig.layer;
       addedObj.userData.enabled = newConfig.enabled;
 
-      // Preserve the name or create new one
-      if (!newConfig.name) {
-        newConfig.name = `${
-          newConfig.shape?.type || newConfig.type || "object"
-        } ${id}`;
-      }
-
       // Re-insert at the same position with the same ID
-      this.objects.push({ id, threeObj: addedObj, config: newConfig });
+      const item = { id, threeObj: addedObj, config: newConfig };
+      this.objects.push(item);
       this.objects = [...this.objects, ...tempObjects.slice(index)];
 
-      this.scene.add(addedObj);
+      if (newConfig.name !== previousName) {
+        this.renameReferences(previousName, newConfig.name);
+      }
+      this.attachToParent(item);
+      childObjs.forEach((child) => addedObj.add(child));
+      this.attachMotion(item);
+      this.attachSensors(item);
+      this.updateCameraRig(item, 0);
+
+      if (newConfig.physics && this.bodyInterface) {
+        this.recordSuppressed++;
+        try {
+          this.convertObjectToDynamic(id, newConfig.physics);
+        } finally {
+          this.recordSuppressed--;
+        }
+      }
 
       // Re-select if it was selected
       if (this.selectedHelper) {
@@ -700,10 +1822,30 @@ export class IsoCard {
     return false;
   }
 
-  updateObject(id, updates) {
+  updateObject(id: ObjectId, changes: ObjectUpdate) {
+    let updates: AnyRecord = changes;
     const item = this.objects.find((o) => o.id === id);
     if (!item) return;
+
+    if ("id" in updates) {
+      if (updates.id !== id) console.warn(`Object id ${id} can't be changed`);
+      updates = { ...updates };
+      delete updates.id;
+    }
+    const previousName = item.config.name;
+    if (updates.name !== undefined && updates.name !== previousName) {
+      const name = this.claimName(updates.name, new Set(), null);
+      if (name === null) return;
+      updates = { ...updates, name };
+    }
+
+    this.recordAction("updateObject", [id, updates]);
+    const previousPhysics = item.config.physics;
+    const previousOwner = this.getPhysicsAncestor(item);
     Object.assign(item.config, updates);
+    if (item.config.name !== previousName) {
+      this.renameReferences(previousName, item.config.name);
+    }
     const obj = item.threeObj;
 
     if (updates.pos) obj.position.fromArray(item.config.pos);
@@ -728,6 +1870,9 @@ export class IsoCard {
 
     if (updates.scale) obj.scale.fromArray(item.config.scale);
 
+    // Reparenting keeps pos/euler/scale as local values
+    if ("parent" in updates) this.attachToParent(item);
+
     // Handle layer changes
     if (updates.layer !== undefined) {
       obj.userData.layer = updates.layer;
@@ -771,7 +1916,10 @@ export class IsoCard {
 
     if (recreateMat && obj.isMesh) {
       const newMat = this.createMaterialFromObj(
-        item.config.material || { type: "phong" }
+        item.config.material || {
+          type: "phong",
+          color: item.config.color || 0xffffff,
+        }
       );
       if (newMat) {
         // Apply layer opacity
@@ -784,6 +1932,22 @@ export class IsoCard {
         obj.material.dispose();
         obj.material = newMat;
       }
+    } else if (
+      updates.color !== undefined &&
+      obj.isMesh &&
+      !item.config.material
+    ) {
+      // `color` only tints the default material
+      obj.material.color.set(item.config.color);
+    }
+
+    if (item.config.type === "camera") {
+      if (
+        ["fov", "size", "near", "far", "lookAt"].some((key) => key in updates)
+      ) {
+        this.applyCameraSettings(obj, item.config);
+      }
+      if ("rig" in updates) this.updateCameraRig(item, 0);
     }
 
     // For lights
@@ -793,17 +1957,215 @@ export class IsoCard {
         obj.intensity = item.config.intensity;
     }
 
+    // Moving an animated object moves the pose its motion is relative to
+    if ("motion" in updates) {
+      this.attachMotion(item);
+    } else if (
+      obj.userData.motion &&
+      (updates.pos || updates.euler || updates.rot)
+    ) {
+      obj.userData.motion.position.copy(obj.position);
+      obj.userData.motion.quaternion.copy(obj.quaternion);
+      this.applyMotionPose(item);
+    }
+    if ("sensors" in updates) this.attachSensors(item);
+
+    if (this.bodyInterface) {
+      this.syncPhysicsAfterUpdate(
+        item,
+        updates,
+        previousPhysics,
+        previousOwner
+      );
+    }
+
     if (this.onObjectsChangeCallback) this.onObjectsChangeCallback();
   }
 
-  removeObject(id) {
-    const index = this.objects.findIndex((o) => o.id === id);
-    if (index > -1) {
-      const obj = this.objects[index].threeObj;
-      this.scene.remove(obj);
+  /**
+   * Bring the Jolt side in line with an updateObject() call
+   */
+  private syncPhysicsAfterUpdate(
+    item,
+    updates,
+    previousPhysics,
+    previousOwner
+  ) {
+    const obj = item.threeObj;
+    const moved =
+      "pos" in updates ||
+      "euler" in updates ||
+      "rot" in updates ||
+      "parent" in updates ||
+      "motion" in updates;
+    const reshaped = "shape" in updates || "scale" in updates;
+    const owner = this.getPhysicsAncestor(item);
+
+    // Nested calls below are part of this update, not separate actions
+    this.recordSuppressed++;
+    try {
+      if (owner && obj.userData.body) {
+        // Now part of an ancestor's compound body
+        this.destroyObjectBody(item);
+      } else if ("physics" in updates) {
+        this.applyPhysicsUpdate(item, previousPhysics);
+      } else if (reshaped && obj.userData.body) {
+        this.refreshBodyShape(item);
+      }
 
-      // Dispose of geometry and materials
-      if (obj.geometry) obj.geometry.dispose();
+      if (moved) this.teleportBodies(obj);
+
+      // Compound bodies rebuild when one of their parts changes
+      if (moved || reshaped || "physics" in updates) {
+        [previousOwner, owner].forEach((o, i, owners) => {
+          if (o && owners.indexOf(o) === i && o.threeObj.userData.body) {
+            this.refreshBodyShape(o);
+          }
+        });
+      }
+    } finally {
+      this.recordSuppressed--;
+    }
+  }
+
+  /**
+   * Friction and restitution change in place; anything else rebuilds the body
+   */
+  private applyPhysicsUpdate(item, previousPhysics) {
+    const physics = item.config.physics;
+    const body = item.threeObj.userData.body;
+
+    if (!physics) {
+      this.destroyObjectBody(item);
+      return;
+    }
+    if (this.getPhysicsAncestor(item)) return;
+
+    const { friction, restitution, ...rest } = physics;
+    const {
+      friction: previousFriction,
+      restitution: previousRestitution,
+      ...previousRest
+    } = previousPhysics || {};
+    if (body && JSON.stringify(rest) === JSON.stringify(previousRest)) {
+      if (friction !== undefined) body.SetFriction(friction);
+      if (restitution !== undefined) body.SetRestitution(restitution);
+      item.threeObj.userData.physicsConfig = physics;
+      return;
+    }
+
+    this.convertObjectToDynamic(item.id, physics);
+  }
+
+  /**
+   * Rebuild a body's collision shape in place, keeping velocity and constraints
+   */
+  private refreshBodyShape(item) {
+    const obj = item.threeObj;
+    const body = obj.userData.body;
+    const physicsConfig =
+      obj.userData.physicsConfig || item.config.physics || {};
+    const shape = this.createBodyShape(item, physicsConfig);
+    if (!shape) {
+      console.error(`Failed to rebuild shape for ${item.config.name}`);
+      return;
+    }
+
+    this.bodyInterface.SetShape(
+      body.GetID(),
+      shape,
+      !body.IsStatic(),
+      this.jolt.EActivation_Activate
+    );
+
+    // A mass or inertia from the config outranks the one computed from the shape
+    const massProperties = body.IsStatic()
+      ? null
+      : this.getMassPropertiesOverride(shape, physicsConfig);
+    if (massProperties) {
+      const motion = body.GetMotionProperties();
+      motion.SetMassProperties(motion.GetAllowedDOFs(), massProperties);
+      this.jolt.destroy(massProperties);
+    }
+  }
+
+  /**
+   * Move the bodies of an object and its descendants to their world transforms
+   */
+  private teleportBodies(root) {
+    root.traverse((obj) => {
+      const body = obj.userData.body;
+      if (!body) return;
+      this.bodyInterface.SetPositionAndRotation(
+        body.GetID(),
+        this.unwrapRVec3(obj.getWorldPosition(new this.THREE.Vector3())),
+        this.unwrapQuat(obj.getWorldQuaternion(new this.THREE.Quaternion())),
+        this.jolt.EActivation_Activate
+      );
+    });
+  }
+
+  /**
+   * Take an object's body out of the world and forget it
+   */
+  private destroyObjectBody(item) {
+    const obj = item.threeObj;
+    const body = obj.userData.body;
+    if (!body) return;
+
+    if (this.bodyInterface) {
+      this.detachConstraints(item);
+      this.dropBodyContacts(body.GetID());
+      this.bodyInterface.RemoveBody(body.GetID());
+      this.bodyInterface.DestroyBody(body.GetID());
+    }
+
+    delete obj.userData.body;
+    delete obj.userData.isStatic;
+    delete obj.userData.isDynamic;
+    delete obj.userData.isKinematic;
+    delete obj.userData.physicsConfig;
+
+    const index = this.dynamicObjects.indexOf(obj);
+    if (index > -1) this.dynamicObjects.splice(index, 1);
+  }
+
+  removeObject(id: ObjectId) {
+    const index = this.objects.findIndex((o) => o.id === id);
+    if (index > -1) {
+      this.recordAction("removeObject", [id]);
+      const item = this.objects[index];
+      const obj = item.threeObj;
+      const owner = this.getPhysicsAncestor(item);
+
+      // Children go with their parent, as do constraints on its body
+      const childIds = this.objects
+        .filter((o) => o.threeObj.parent === obj)
+        .map((o) => o.id);
+      this.recordSuppressed++;
+      try {
+        this.destroyObjectBody(item);
+        this.constraints
+          .filter(
+            (c) =>
+              this.refersTo(c.config.bodyA, item) ||
+              this.refersTo(c.config.bodyB, item)
+          )
+          .forEach((c) => this.removeConstraint(c.name));
+        childIds.forEach((childId) => this.removeObject(childId));
+      } finally {
+        this.recordSuppressed--;
+      }
+
+      obj.parent?.remove(obj);
+
+      // A removed part shrinks its ancestor's compound body
+      if (owner?.threeObj.userData.body && this.bodyInterface) {
+        this.refreshBodyShape(owner);
+      }
+
+      // Dispose of geometry and materials
+      if (obj.geometry) obj.geometry.dispose();
       if (obj.material) {
         if (Array.isArray(obj.material)) {
           obj.material.forEach((m) => m.dispose());
@@ -812,20 +2174,81 @@ export class IsoCard {
         }
       }
 
-      if (
-        this.selectedHelper &&
-        this.objects[index].threeObj === this.selectedHelper.object
-      ) {
+      if (this.selectedHelper && obj === this.selectedHelper.object) {
         this.scene.remove(this.selectedHelper);
         this.selectedHelper = null;
       }
 
-      this.objects.splice(index, 1);
+      this.controllers.delete(id);
+      this.heldActions.delete(id);
+      if (this.refersTo(this.sceneConfig.activeCamera, item)) {
+        delete this.sceneConfig.activeCamera;
+      }
+
+      // Removing children shifts the array, so look the entry up again
+      this.objects.splice(
+        this.objects.findIndex((o) => o.threeObj === obj),
+        1
+      );
       if (this.onObjectsChangeCallback) this.onObjectsChangeCallback();
     }
   }
 
-  setLayerVisibility(layerId, visible) {
+  /**
+   * Attach an object to the object named by its `parent` config, or to the
+   * scene root. A parent that hasn't been added yet adopts it later.
+   */
+  private attachToParent(item) {
+    const obj = item.threeObj;
+    const parentName = item.config.parent;
+    const parent =
+      parentName !== undefined && parentName !== null
+        ? this.objects.find((o) => o !== item && o.config.name === parentName)
+        : null;
+
+    let isCycle = false;
+    parent?.threeObj.traverseAncestors((ancestor) => {
+      if (ancestor === obj) isCycle = true;
+    });
+    if (isCycle) {
+      console.warn(
+        `Cannot parent ${item.config.name} to its own descendant ${parentName}`
+      );
+    }
+
+    const target = parent && !isCycle ? parent.threeObj : this.scene;
+    if (obj.parent !== target) target.add(obj);
+  }
+
+  /**
+   * Attach objects that were added before the parent they name
+   */
+  private adoptPendingChildren(item) {
+    this.objects.forEach((o) => {
+      if (
+        o !== item &&
+        o.config.parent === item.config.name &&
+        o.threeObj.parent === this.scene
+      ) {
+        item.threeObj.add(o.threeObj);
+      }
+    });
+  }
+
+  /**
+   * Closest ancestor object that owns the physics body for this one
+   */
+  private getPhysicsAncestor(item) {
+    let ancestor = null;
+    item.threeObj.traverseAncestors((parent) => {
+      if (ancestor) return;
+      const entry = this.objects.find((o) => o.threeObj === parent);
+      if (entry?.config.physics) ancestor = entry;
+    });
+    return ancestor;
+  }
+
+  setLayerVisibility(layerId: string, visible: boolean) {
     if (!this.layers[layerId]) {
       this.layers[layerId] = { visible: true, opacity: 0.5 };
     }
@@ -840,7 +2263,7 @@ export class IsoCard {
     });
   }
 
-  updateLayerOpacity(layerId, opacity) {
+  updateLayerOpacity(layerId: string, opacity: number) {
     if (!this.layers[layerId]) {
       this.layers[layerId] = { visible: true, opacity: 0.5 };
     }
@@ -872,10 +2295,9 @@ export class IsoCard {
    * Set camera configuration
    */
   setCameraConfig(config: Partial<CameraConfig>) {
-    if (!this.camera || !this.controls) return;
-
-    // Update stored config
+    // Stored even without a camera, for renderToPixels() on servers
     this.sceneConfig.camera = { ...this.sceneConfig.camera, ...config };
+    if (!this.camera || !this.controls) return;
 
     // Apply position
     if (config.position) {
@@ -986,7 +2408,7 @@ export class IsoCard {
   /**
    * Look at specific object
    */
-  lookAtObject(objectId: string) {
+  lookAtObject(objectId: ObjectId) {
     const obj = this.objects.find((o) => o.id === objectId);
     if (!obj || !obj.threeObj) return;
 
@@ -1054,17 +2476,153 @@ export class IsoCard {
     animate();
   }
 
-  exportScene() {
+  /**
+   * View the scene through a camera entry (by name or id), or through the
+   * default camera with null. Also used by renderToPixels().
+   */
+  setActiveCamera(camera: string | null): boolean {
+    const item = camera === null ? null : this.findObjectByRef(camera);
+    if (camera !== null && item?.config.type !== "camera") {
+      console.warn(`setActiveCamera: no camera ${camera}`);
+      return false;
+    }
+    this.recordAction("setActiveCamera", [camera]);
+    if (item) this.sceneConfig.activeCamera = item.config.name;
+    else delete this.sceneConfig.activeCamera;
+
+    // Orbiting moves the default camera, which isn't shown meanwhile
+    if (this.controls) {
+      this.controls.enabled =
+        !item && !this.cameraLocked && this.sceneConfig.camera.orbitEnabled;
+    }
+    return true;
+  }
+
+  /**
+   * Name of the active camera entry, or null for the default camera
+   */
+  getActiveCamera(): string | null {
+    return this.getActiveCameraObject()?.config.name ?? null;
+  }
+
+  private getActiveCameraObject(): SceneObject | undefined {
+    const ref = this.sceneConfig.activeCamera;
+    const item = ref === undefined ? undefined : this.findObjectByRef(ref);
+    return item?.config.type === "camera" ? item : undefined;
+  }
+
+  private createCamera(config: CameraEntry) {
+    const camera =
+      config.cameraType === "orthographic"
+        ? new this.THREE.OrthographicCamera()
+        : new this.THREE.PerspectiveCamera();
+    if (config.pos) camera.position.fromArray(config.pos);
+    if (config.euler) {
+      camera.rotation.set(
+        ...config.euler.map((deg) => this.degreesToRadians(deg))
+      );
+    }
+    this.applyCameraSettings(camera, config);
+    return camera;
+  }
+
+  private applyCameraSettings(camera, config: CameraEntry) {
+    if (camera.isPerspectiveCamera) camera.fov = config.fov ?? 75;
+    camera.near = config.near ?? 0.1;
+    camera.far = config.far ?? 1000;
+    if (config.lookAt) camera.lookAt(...config.lookAt);
+    this.fitCamera(camera, this.camera?.aspect ?? 1, config.size);
+  }
+
+  /**
+   * Match a camera's projection to the aspect ratio of the picture
+   */
+  private fitCamera(camera, aspect: number, size: number = 10) {
+    if (camera.isOrthographicCamera) {
+      camera.top = size / 2;
+      camera.bottom = -size / 2;
+      camera.left = (-size / 2) * aspect;
+      camera.right = (size / 2) * aspect;
+    } else {
+      camera.aspect = aspect;
+    }
+    camera.updateProjectionMatrix();
+  }
+
+  private updateCameraRigs(dt: number) {
+    this.objects.forEach((item) => this.updateCameraRig(item, dt));
+  }
+
+  /**
+   * Move a rigged camera towards where its rig puts it; dt 0 jumps there
+   */
+  private updateCameraRig(item, dt: number) {
+    const rig: CameraRigConfig = item.config.rig;
+    if (item.config.type !== "camera" || !rig) return;
+    const target = this.findObjectByRef(rig.target)?.threeObj;
+    if (!target) return;
+
+    const mode = rig.mode || "chase";
+    const targetPosition = target.getWorldPosition(new this.THREE.Vector3());
+    // Follow rigs ignore the target's rotation
+    const frame =
+      mode === "follow"
+        ? new this.THREE.Quaternion()
+        : target.getWorldQuaternion(new this.THREE.Quaternion());
+    const toWorld = (offset: Vec3Tuple) =>
+      new this.THREE.Vector3(...offset)
+        .applyQuaternion(frame)
+        .add(targetPosition);
+
+    const position = toWorld(rig.offset || DEFAULT_RIG_OFFSETS[mode]);
+    const quaternion = new this.THREE.Quaternion();
+    if (mode === "firstPerson") {
+      quaternion.copy(frame);
+    } else {
+      quaternion.setFromRotationMatrix(
+        new this.THREE.Matrix4().lookAt(
+          position,
+          toWorld(rig.lookAtOffset || [0, 0, 0]),
+          new this.THREE.Vector3(0, 1, 0)
+        )
+      );
+    }
+
+    const camera = item.threeObj;
+    if (dt > 0 && rig.smoothing > 0) {
+      const blend = 1 - Math.exp(-dt / rig.smoothing);
+      position.lerpVectors(
+        camera.getWorldPosition(new this.THREE.Vector3()),
+        position,
+        blend
+      );
+      quaternion.slerpQuaternions(
+        camera.getWorldQuaternion(new this.THREE.Quaternion()),
+        quaternion,
+        blend
+      );
+    }
+    this.setWorldTransform(camera, position, quaternion);
+  }
+
+  exportScene(): SceneEntry[] {
     const sceneData = [];
 
     // Export scene config including camera
-    if (this.sceneConfig.background !== null || this.sceneConfig.camera) {
+    if (
+      this.sceneConfig.background !== null ||
+      this.sceneConfig.camera ||
+      this.sceneConfig.collisionGroups ||
+      this.sceneConfig.activeCamera
+    ) {
       sceneData.push({
         type: "scene",
         background: this.sceneConfig.background,
         fog: this.sceneConfig.fog,
         gravity: this.sceneConfig.gravity,
+        collisionGroups: this.sceneConfig.collisionGroups,
         camera: this.getCameraConfig(), // Get current camera state
+        activeCamera: this.sceneConfig.activeCamera,
       });
     }
 
@@ -1073,13 +2631,20 @@ export class IsoCard {
     this.objects.forEach((obj) => {
       const config = { ...obj.config };
       if (obj.threeObj.isMesh || obj.threeObj.isGroup) {
-        config.pos = obj.threeObj.position.toArray();
+        // Animated objects keep the pose their motion is relative to
+        const motion = obj.threeObj.userData.motion;
+        const position = motion ? motion.position : obj.threeObj.position;
+        const rotation = motion
+          ? new this.THREE.Euler().setFromQuaternion(motion.quaternion)
+          : obj.threeObj.rotation;
+        config.pos = position.toArray();
         config.euler = [
-          (obj.threeObj.rotation.x * 180) / Math.PI,
-          (obj.threeObj.rotation.y * 180) / Math.PI,
-          (obj.threeObj.rotation.z * 180) / Math.PI,
+          (rotation.x * 180) / Math.PI,
+          (rotation.y * 180) / Math.PI,
+          (rotation.z * 180) / Math.PI,
         ];
         config.scale = obj.threeObj.scale.toArray();
+        if (motion) config.motion = { ...config.motion, time: motion.time };
       }
       if (obj.config.physics) {
         config.physics = obj.config.physics;
@@ -1090,7 +2655,9 @@ export class IsoCard {
     return sceneData;
   }
 
-  interpretJSON(jsonString) {
+  interpretJSON(jsonString: string, options: SceneLoadOptions = {}) {
+    if (options.strict && !this.acceptScene(jsonString)) return [];
+
     // Pre-process to convert hex 0x values to decimal
     jsonString = jsonString.replace(
       /:\s*0x([0-9a-fA-F]+)/g,
@@ -1110,29 +2677,34 @@ export class IsoCard {
       return [];
     }
 
-    // Store objects that need physics applied
-    const physicsObjects = [];
+    const firstAdded = this.objects.length;
+    sceneData.forEach((config) => this.addObject(config));
+    this.createAddedBodies(this.objects.slice(firstAdded));
 
-    sceneData.forEach((config) => {
-      const objId = this.addObject(config);
+    return this.objects.map((o) => o.threeObj);
+  }
 
-      // If this object has physics config and Jolt is initialized, store for later application
-      if (objId !== null && config.physics && this.jolt && this.jInterface) {
-        physicsObjects.push({ id: objId, physicsConfig: config.physics });
-      }
-    });
+  /**
+   * Give newly added objects their physics bodies, which addObject() leaves
+   * to the caller. Children of a physics object are part of its compound body
+   * instead, so call this once their children are added too.
+   */
+  private createAddedBodies(added: SceneObject[]) {
+    if (!this.jolt || !this.jInterface) return;
+    const physicsOf = (o: SceneObject) => (o.config as AnyRecord).physics;
+    const physicsObjects = added.filter(
+      (o) =>
+        this.objects.includes(o) && physicsOf(o) && !this.getPhysicsAncestor(o)
+    );
 
-    // Apply physics to objects that had physics config
-    if (physicsObjects.length > 0 && this.jolt && this.jInterface) {
+    if (physicsObjects.length > 0) {
       console.log(
         `Applying physics to ${physicsObjects.length} objects from loaded scene`
       );
-      physicsObjects.forEach(({ id, physicsConfig }) => {
-        this.convertObjectToDynamic(id, physicsConfig);
+      physicsObjects.forEach((obj) => {
+        this.convertObjectToDynamic(obj.id, physicsOf(obj));
       });
     }
-
-    return this.objects.map((o) => o.threeObj);
   }
 
   async initializeScenePhysics() {
@@ -1143,7 +2715,7 @@ export class IsoCard {
 
     // Apply physics to objects that have physics config
     this.objects.forEach((obj) => {
-      if (obj.config.physics) {
+      if (obj.config.physics && !this.getPhysicsAncestor(obj)) {
         this.convertObjectToDynamic(obj.id, obj.config.physics);
       }
     });
@@ -1151,7 +2723,7 @@ export class IsoCard {
     console.log("Scene physics initialized");
   }
 
-  createGeometry(shape) {
+  createGeometry(shape: ShapeConfig) {
     let geometry = null;
     switch (shape.type) {
       case "box":
@@ -1275,14 +2847,33 @@ export class IsoCard {
           shape.radialSegments || 32
         );
         break;
+      case "heightfield": {
+        const { sampleCount, heights } = getHeightfieldSamples(shape);
+        geometry = new this.THREE.PlaneGeometry(
+          shape.width || 10,
+          shape.depth || 10,
+          sampleCount - 1,
+          sampleCount - 1
+        );
+        // Lay the plane on XZ; vertex (row, column) is sample (x, z)
+        geometry.rotateX(-Math.PI / 2);
+        const position = geometry.attributes.position;
+        for (let i = 0; i < position.count; i++) {
+          position.setY(i, heights[i]);
+        }
+        position.needsUpdate = true;
+        geometry.computeVertexNormals();
+        break;
+      }
       default:
-        console.warn("Unsupported shape:", shape.type);
+        console.warn("Unsupported shape:", (shape as AnyRecord).type);
         return null;
     }
     return geometry;
   }
 
-  createMaterialFromObj(materialObj) {
+  createMaterialFromObj(config: MaterialConfig) {
+    const materialObj: AnyRecord = config;
     let material = null;
     const type = materialObj.type?.toLowerCase() || "phong";
     const commonProps = {
@@ -1427,7 +3018,127 @@ export class IsoCard {
   }
 
   renderScene() {
-    this.renderer.render(this.scene, this.camera);
+    const active = this.getActiveCameraObject();
+    if (active) {
+      this.fitCamera(
+        active.threeObj,
+        this.camera.aspect,
+        (active.config as CameraEntry).size
+      );
+    }
+    this.renderer.render(this.scene, active ? active.threeObj : this.camera);
+  }
+
+  /**
+   * Use a different offscreen renderer for renderToPixels(); the previous one
+   * is disposed
+   */
+  setRenderTarget(target: RenderTarget | null) {
+    if (target !== this.renderTarget) this.renderTarget?.dispose?.();
+    this.renderTarget = target;
+  }
+
+  /**
+   * Render the scene offscreen into RGBA and depth buffers. The camera is
+   * `options.camera`, the active camera entry, or else getCameraConfig(),
+   * with `cameraConfig` on top, so it works without an onscreen camera.
+   * Needs a page renderer or an injected one on servers.
+   */
+  renderToPixels(
+    cameraConfig: Partial<CameraConfig> = {},
+    width: number = this.container?.clientWidth || 512,
+    height: number = this.container?.clientHeight || 512,
+    options: { depth?: boolean; camera?: string } = {}
+  ): RenderedPixels | null {
+    if (!this.renderTarget && this.renderer) {
+      this.renderTarget = createWebGLRenderTarget(this.THREE, this.renderer);
+    }
+    if (!this.renderTarget) {
+      console.warn(
+        "renderToPixels: no renderer; pass deps.renderer or deps.renderTarget"
+      );
+      return null;
+    }
+    if (!(width >= 1 && height >= 1)) {
+      console.warn(`renderToPixels: invalid size ${width}x${height}`);
+      return null;
+    }
+    width = Math.floor(width);
+    height = Math.floor(height);
+
+    const source =
+      options.camera !== undefined
+        ? this.findObjectByRef(options.camera)
+        : this.getActiveCameraObject();
+    if (options.camera !== undefined && source?.config.type !== "camera") {
+      console.warn(`renderToPixels: no camera ${options.camera}`);
+      return null;
+    }
+
+    let camera;
+    if (source) {
+      // A copy at the camera's world pose, so rigs and parents carry over
+      camera = source.threeObj.clone(false);
+      source.threeObj.updateWorldMatrix(true, false);
+      source.threeObj.matrixWorld.decompose(
+        camera.position,
+        camera.quaternion,
+        new this.THREE.Vector3()
+      );
+      const { position, lookAt, fov, near, far } = cameraConfig;
+      if (position) camera.position.set(...position);
+      if (lookAt) camera.lookAt(...lookAt);
+      if (fov !== undefined && camera.isPerspectiveCamera) camera.fov = fov;
+      if (near !== undefined) camera.near = near;
+      if (far !== undefined) camera.far = far;
+    } else {
+      const config = { ...this.getCameraConfig(), ...cameraConfig };
+      camera = new this.THREE.PerspectiveCamera(
+        config.fov ?? 75,
+        width / height,
+        config.near ?? 0.1,
+        config.far ?? 1000
+      );
+      camera.position.set(...(config.position || [5, 5, 5]));
+      camera.lookAt(...(config.lookAt || [0, 0, 0]));
+    }
+    this.fitCamera(
+      camera,
+      width / height,
+      (source?.config as CameraEntry)?.size
+    );
+    camera.updateMatrixWorld();
+
+    // The selection box belongs to the editor, not the picture
+    const helper = this.selectedHelper;
+    const helperVisible = helper?.visible;
+    if (helper) helper.visible = false;
+    try {
+      return this.renderTarget.render(this.scene, camera, width, height, {
+        depth: options.depth ?? true,
+      });
+    } catch (error) {
+      console.error("renderToPixels failed:", error);
+      return null;
+    } finally {
+      if (helper) helper.visible = helperVisible;
+    }
+  }
+
+  /**
+   * PNG of the scene as renderToPixels() sees it
+   */
+  async captureScreenshot(
+    cameraConfig: Partial<CameraConfig> = {},
+    width?: number,
+    height?: number,
+    options: { camera?: string } = {}
+  ): Promise<Uint8Array | null> {
+    const pixels = this.renderToPixels(cameraConfig, width, height, {
+      ...options,
+      depth: false,
+    });
+    return pixels ? encodePNG(pixels) : null;
   }
 
   animate() {
@@ -1440,52 +3151,7 @@ export class IsoCard {
       var deltaTime = this.clock.getDelta();
       deltaTime = Math.min(deltaTime, 1.0 / 30.0);
 
-      if (this.gravityType === "radial") {
-        const center = this.unwrapRVec3(this.gravityCenter);
-        this.dynamicObjects.forEach((obj) => {
-          if (obj.userData.body) {
-            const body = obj.userData.body;
-            const pos = body.GetPosition(); // RVec3
-            const dir = pos.Sub(center); // Vec3 (direction from center to body)
-            const distSq = dir.LengthSq();
-            if (distSq > 0.0001) {
-              // Avoid division by zero
-              const dist = Math.sqrt(distSq);
-              const unitDir = dir.Normalized(); // Vec3 towards center? Wait, dir is from center to body, so for attraction, negate
-              const forceMag = this.gravityStrength / distSq;
-              const invMass = body.GetMotionProperties().GetInverseMass();
-              const mass = invMass > 0 ? 1 / invMass : 0;
-              if (mass > 0) {
-                const force = unitDir.Mul(-forceMag * mass); // Negative for attraction (towards center)
-                body.AddForce(force);
-              }
-            }
-          }
-        });
-      }
-
-      // Step the physics world
-      var numSteps = deltaTime > 1.0 / 55.0 ? 2 : 1;
-      this.jInterface.Step(deltaTime, numSteps);
-
-      // Update dynamic object transforms from physics
-      for (let i = 0, il = this.dynamicObjects.length; i < il; i++) {
-        let objThree = this.dynamicObjects[i];
-        let body = objThree.userData.body;
-        if (body) {
-          objThree.position.copy(this.wrapVec3(body.GetPosition()));
-          objThree.quaternion.copy(this.wrapQuat(body.GetRotation()));
-        }
-      }
-
-      // In the animate() method, add this code inside the if (this.jInterface && this.isPhysicsRunning) block, after this.time += deltaTime;
-      const interval = 1 / this.actionsPerSecond;
-      if (this.time - this.lastActionTime >= interval) {
-        // this.applyPeriodicActions();
-        this.lastActionTime = this.time;
-      }
-
-      this.time += deltaTime;
+      this.advance(deltaTime);
     }
     if (!this.isServer) {
       this.controls.update();
@@ -1499,78 +3165,566 @@ export class IsoCard {
     }
   }
 
-  startAnimate() {
-    this.animate();
+  /**
+   * Set the fixed physics rate used by advance() and animate()
+   */
+  setFixedTimeStep(hz: number) {
+    if (!(hz > 0)) return;
+    this.fixedTimeStep = 1 / hz;
+    this.accumulator = 0;
   }
 
-  async setupJOLT() {
-    if (this.jolt && this.jInterface && this.bodyInterface) return true;
+  getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
 
-    try {
-      if (!this.jolt) {
-        if (this.loadJolt) {
-          const maybeInit = await this.loadJolt();
-          const init =
-            typeof maybeInit === "function"
-              ? maybeInit
-              : maybeInit?.default ?? maybeInit;
-          this.jolt = typeof init === "function" ? await init() : init;
-          if (!this.jolt)
-            throw new Error("joltInit/loadJolt returned no module");
-          console.log("Jolt Physics loaded via injected init");
-        } else if ((window as AnyRecord).jolt) {
-          this.jolt = (window as AnyRecord).jolt;
-          console.log("Jolt Physics read from window.jolt");
-        } else {
-          throw new Error(
-            "No Jolt provided. Pass deps.jolt or deps.joltInit()"
-          );
-        }
-      }
-    } catch (error) {
-      console.error("Failed to load Jolt Physics:", error);
+  /**
+   * Number of fixed steps taken since physics was set up
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the simulation clock, e.g. to resume a recording where it started
+   */
+  setClock(tick: number, time: number) {
+    this.tick = tick;
+    this.time = time;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Advance the simulation by exactly one tick of `dt` seconds.
+   * Does not depend on requestAnimationFrame, so it can drive headless servers.
+   */
+  step(dt: number = this.fixedTimeStep, substeps: number = 1): boolean {
+    if (!this.jolt || !this.jInterface) {
+      console.error("Physics not initialized");
       return false;
     }
 
-    try {
-      this.time = 0;
+    this.recordAction("step", [dt, substeps]);
 
-      const settings = new this.jolt.JoltSettings();
-      settings.mMaxWorkerThreads = 3;
+    // Controllers decide at actionsPerSecond, before the step they act on
+    const interval = 1 / this.actionsPerSecond;
+    if (this.time - this.lastActionTime >= interval - 1e-9) {
+      this.runControllers();
+      this.lastActionTime = this.time;
+    }
+    this.applyHeldActions();
 
-      const objectFilter = new this.jolt.ObjectLayerPairFilterTable(
-        IsoCard.NUM_OBJECT_LAYERS
-      );
-      objectFilter.EnableCollision(
-        IsoCard.LAYER_NON_MOVING,
-        IsoCard.LAYER_MOVING
-      );
-      objectFilter.EnableCollision(IsoCard.LAYER_MOVING, IsoCard.LAYER_MOVING);
+    this.applyGravityFields();
+    this.applyMotions(dt);
 
-      const BP_LAYER_NON_MOVING = new this.jolt.BroadPhaseLayer(0);
-      const BP_LAYER_MOVING = new this.jolt.BroadPhaseLayer(1);
-      const NUM_BROAD_PHASE_LAYERS = 2;
+    // Step the physics world
+    this.jInterface.Step(dt, Math.max(1, Math.floor(substeps)));
 
-      const bpInterface = new this.jolt.BroadPhaseLayerInterfaceTable(
-        IsoCard.NUM_OBJECT_LAYERS,
-        NUM_BROAD_PHASE_LAYERS
-      );
-      bpInterface.MapObjectToBroadPhaseLayer(
-        IsoCard.LAYER_NON_MOVING,
-        BP_LAYER_NON_MOVING
-      );
-      bpInterface.MapObjectToBroadPhaseLayer(
-        IsoCard.LAYER_MOVING,
-        BP_LAYER_MOVING
-      );
+    // Update dynamic object transforms from physics
+    this.syncDynamicObjects();
+    this.updateCameraRigs(dt);
 
-      settings.mObjectLayerPairFilter = objectFilter;
-      settings.mBroadPhaseLayerInterface = bpInterface;
-      settings.mObjectVsBroadPhaseLayerFilter =
-        new this.jolt.ObjectVsBroadPhaseLayerFilterTable(
-          settings.mBroadPhaseLayerInterface,
-          NUM_BROAD_PHASE_LAYERS,
-          settings.mObjectLayerPairFilter,
+    this.collectCollisionEvents();
+    this.time += dt;
+    this.tick++;
+    this.sampleSensors();
+
+    // Handlers run after the step so they can safely mutate the scene
+    this.dispatchCollisionEvents();
+    return true;
+  }
+
+  /**
+   * Feed wall-clock time into the accumulator and take as many fixed steps as fit.
+   * Returns the number of steps taken.
+   */
+  advance(elapsed: number): number {
+    if (!this.jInterface) return 0;
+
+    this.accumulator += elapsed;
+    let steps = 0;
+    while (
+      this.accumulator >= this.fixedTimeStep &&
+      steps < this.maxStepsPerAdvance
+    ) {
+      this.step(this.fixedTimeStep);
+      this.accumulator -= this.fixedTimeStep;
+      steps++;
+    }
+
+    // Drop time we could not catch up on instead of spiralling
+    if (steps === this.maxStepsPerAdvance) {
+      this.accumulator = 0;
+    }
+    return steps;
+  }
+
+  /**
+   * Run the simulation for `seconds` of simulated time at `hz` steps per second,
+   * as fast as the CPU allows. Returns the number of steps taken.
+   */
+  runFor(seconds: number, hz: number = 1 / this.fixedTimeStep): number {
+    if (!this.jolt || !this.jInterface) {
+      console.error("Physics not initialized");
+      return 0;
+    }
+
+    const dt = 1 / hz;
+    const numSteps = Math.round(seconds * hz);
+    for (let i = 0; i < numSteps; i++) {
+      this.step(dt);
+    }
+    return numSteps;
+  }
+
+  /**
+   * Start capturing the current scene and every subsequent mutating call
+   */
+  startRecording(): SimulationRecorder {
+    this.recorder = new SimulationRecorder(this);
+    this.recorder.start();
+    return this.recorder;
+  }
+
+  /**
+   * Stop recording and return the replay log
+   */
+  stopRecording() {
+    if (!this.recorder) return null;
+    const log = this.recorder.stop();
+    this.recorder = null;
+    return log;
+  }
+
+  isRecording(): boolean {
+    return !!this.recorder?.isRecording();
+  }
+
+  private recordAction(type: ReplayActionType, args: any[]) {
+    if (this.recorder && this.recordSuppressed === 0) {
+      this.recorder.record(type, args);
+    }
+  }
+
+  /**
+   * Add attractor pulls and gravity-zone corrections on top of Jolt's uniform
+   * gravity, scaled by each body's gravityFactor
+   */
+  private applyGravityFields() {
+    const attractors = this.getAttractors();
+    const zones: GravityZoneConfig[] = this.sceneConfig.gravity?.zones || [];
+    if (!attractors.length && !zones.length) return;
+
+    const uniform = this.wrapVec3(this.physicsSystem.GetGravity());
+    this.dynamicObjects.forEach((obj) => {
+      const body = obj.userData.body;
+      // Forces on sleeping bodies would pile up until they wake
+      if (!body || !body.IsActive()) return;
+      const motion = body.GetMotionProperties();
+      const invMass = motion.GetInverseMass();
+      if (invMass <= 0 || motion.GetGravityFactor() === 0) return;
+
+      const position = this.wrapVec3(body.GetCenterOfMassPosition());
+      const acceleration = this.getGravityAt(
+        position,
+        attractors,
+        zones,
+        uniform,
+        body
+      ).sub(uniform);
+      if (acceleration.lengthSq() === 0) return;
+      const force = acceleration.multiplyScalar(
+        motion.GetGravityFactor() / invMass
+      );
+      body.AddForce(this.scratchVec3(force.toArray()));
+    });
+  }
+
+  /**
+   * Gravity at a world position: the zone's vector or uniform gravity, plus
+   * the pull of every attractor other than `body`
+   */
+  private getGravityAt(
+    position,
+    attractors: ReturnType<IsoCard["getAttractors"]>,
+    zones: GravityZoneConfig[],
+    uniform,
+    body = null
+  ) {
+    const gravity = new this.THREE.Vector3();
+    const toAttractor = new this.THREE.Vector3();
+    attractors.forEach((attractor) => {
+      if (body && attractor.body === body) return;
+      toAttractor.subVectors(attractor.position, position);
+      const distance = toAttractor.length();
+      // Too close to have a direction
+      if (distance < 0.01) return;
+      gravity.addScaledVector(
+        toAttractor,
+        this.getAttractorPull(attractor, distance) / distance
+      );
+    });
+
+    const zone = zones.find((z) => this.isInGravityZone(position, z));
+    return gravity.add(zone ? new this.THREE.Vector3(...zone.vector) : uniform);
+  }
+
+  /**
+   * World positions of every attractor this step: the scene's list plus any
+   * object with physics.gravityStrength, so moving attractors are followed
+   */
+  private getAttractors() {
+    const gravity: GravityConfig = this.sceneConfig.gravity || {};
+    const falloff = gravity.falloff || "inverseSquare";
+    const attractors: {
+      position: any;
+      strength: number;
+      falloff: GravityFalloff;
+      radius?: number;
+      body?: any;
+    }[] = [];
+
+    (gravity.attractors || []).forEach((attractor) => {
+      const obj =
+        attractor.object !== undefined
+          ? this.findObjectByRef(attractor.object)?.threeObj
+          : null;
+      // Followed objects may not have been added yet
+      if (attractor.object !== undefined && !obj) return;
+      attractors.push({
+        position: obj
+          ? obj.getWorldPosition(new this.THREE.Vector3())
+          : new this.THREE.Vector3(...(attractor.position || [0, 0, 0])),
+        strength: attractor.strength,
+        falloff: attractor.falloff || falloff,
+        radius: attractor.radius,
+        body: obj?.userData.body,
+      });
+    });
+
+    this.objects.forEach(({ config, threeObj }) => {
+      const physics: PhysicsConfig = config.physics;
+      if (!physics?.gravityStrength) return;
+      attractors.push({
+        position: threeObj.getWorldPosition(new this.THREE.Vector3()),
+        strength: physics.gravityStrength,
+        falloff: physics.gravityFalloff || falloff,
+        radius: physics.gravityRadius,
+        body: threeObj.userData.body,
+      });
+    });
+
+    if (!attractors.length && this.gravityType === "radial") {
+      attractors.push({
+        position: new this.THREE.Vector3(...(gravity.center || [0, 0, 0])),
+        strength: gravity.strength ?? 1000,
+        falloff,
+      });
+    }
+    return attractors;
+  }
+
+  /**
+   * Acceleration toward an attractor at the given distance
+   */
+  private getAttractorPull(
+    attractor: { strength: number; falloff: GravityFalloff; radius?: number },
+    distance: number
+  ): number {
+    const { strength, falloff, radius } = attractor;
+    if (radius !== undefined && distance > radius) return 0;
+    switch (falloff) {
+      case "constant":
+        return strength;
+      case "linear":
+        return radius ? strength * (1 - distance / radius) : strength;
+      default:
+        return strength / (distance * distance);
+    }
+  }
+
+  private isInGravityZone(position, zone: GravityZoneConfig): boolean {
+    const center = new this.THREE.Vector3(...(zone.center || [0, 0, 0]));
+    if (zone.shape === "sphere") {
+      return position.distanceTo(center) <= (zone.radius ?? 1);
+    }
+    const [x, y, z] = zone.size || [1, 1, 1];
+    return new this.THREE.Box3()
+      .setFromCenterAndSize(center, new this.THREE.Vector3(x, y, z))
+      .containsPoint(position);
+  }
+
+  private syncDynamicObjects() {
+    for (let i = 0, il = this.dynamicObjects.length; i < il; i++) {
+      let objThree = this.dynamicObjects[i];
+      let body = objThree.userData.body;
+      if (body) {
+        this.setWorldTransform(
+          objThree,
+          this.wrapVec3(body.GetPosition()),
+          this.wrapQuat(body.GetRotation())
+        );
+      }
+    }
+
+    // Kinematic bodies only move when a motion drives them
+    this.objects.forEach(({ threeObj }) => {
+      const body = threeObj.userData.body;
+      if (body && threeObj.userData.motion && threeObj.userData.isKinematic) {
+        this.setWorldTransform(
+          threeObj,
+          this.wrapVec3(body.GetPosition()),
+          this.wrapQuat(body.GetRotation())
+        );
+      }
+    });
+  }
+
+  /**
+   * Remember the pose an object's motion is relative to, start its clock and
+   * move the object to where the motion puts it at that time
+   */
+  private attachMotion(item) {
+    const obj = item.threeObj;
+    const motion: MotionConfig = item.config.motion;
+    if (!motion) {
+      delete obj.userData.motion;
+      return;
+    }
+
+    // A replaced motion keeps the pose the previous one was relative to
+    const base = obj.userData.motion || obj;
+    const state = {
+      position: base.position.clone(),
+      quaternion: base.quaternion.clone(),
+      time: motion.time || 0,
+    };
+    obj.userData.motion = state;
+    this.applyMotionPose(item);
+  }
+
+  private applyMotionPose(item) {
+    const obj = item.threeObj;
+    const { position, quaternion } = this.getMotionPose(
+      item.config.motion,
+      obj.userData.motion
+    );
+    obj.position.copy(position);
+    obj.quaternion.copy(quaternion);
+  }
+
+  /**
+   * Advance every motion by dt. Kinematic bodies are moved with MoveKinematic
+   * so they push what they touch; objects without a body are placed directly.
+   */
+  private applyMotions(dt: number) {
+    this.objects.forEach((item) => {
+      const obj = item.threeObj;
+      const state = obj.userData.motion;
+      const body = obj.userData.body;
+      if (!state || (body && !obj.userData.isKinematic)) return;
+
+      state.time += dt;
+      const { position, quaternion } = this.getMotionPose(
+        item.config.motion,
+        state
+      );
+      if (!body) {
+        obj.position.copy(position);
+        obj.quaternion.copy(quaternion);
+        return;
+      }
+
+      // Bodies live in world space, motions in the parent's space
+      const world = new this.THREE.Matrix4().compose(
+        position,
+        quaternion,
+        obj.scale
+      );
+      if (obj.parent) {
+        obj.parent.updateWorldMatrix(true, false);
+        world.premultiply(obj.parent.matrixWorld);
+      }
+      world.decompose(position, quaternion, new this.THREE.Vector3());
+      this.bodyInterface.MoveKinematic(
+        body.GetID(),
+        this.scratchRVec3(position.toArray()),
+        this.scratchQuat(quaternion),
+        dt
+      );
+    });
+  }
+
+  private getMotionPose(motion: MotionConfig, state) {
+    const position = state.position.clone();
+    const quaternion = state.quaternion.clone();
+    const t = state.time;
+
+    if (motion.path?.points?.length >= 2) {
+      position.copy(this.getPathPoint(motion.path, t));
+    }
+
+    if (motion.oscillate) {
+      const {
+        axis = [0, 1, 0],
+        amplitude = 1,
+        frequency = 0.5,
+        phase = 0,
+      } = motion.oscillate;
+      position.addScaledVector(
+        new this.THREE.Vector3().fromArray(axis).normalize(),
+        amplitude *
+          Math.sin(2 * Math.PI * frequency * t + this.degreesToRadians(phase))
+      );
+    }
+
+    if (motion.rotate) {
+      const { axis = [0, 1, 0], speed = 90, angle } = motion.rotate;
+      const degrees =
+        angle === undefined
+          ? speed * t
+          : Math.sign(angle) *
+            getMotionProgress(
+              Math.abs(speed) * t,
+              Math.abs(angle),
+              motion.rotate
+            );
+      quaternion.multiply(
+        new this.THREE.Quaternion().setFromAxisAngle(
+          new this.THREE.Vector3().fromArray(axis).normalize(),
+          this.degreesToRadians(degrees)
+        )
+      );
+    }
+
+    return { position, quaternion };
+  }
+
+  private getPathPoint(path: MotionConfig["path"], t: number) {
+    const points = path.points.map((p) =>
+      new this.THREE.Vector3().fromArray(p)
+    );
+    // Looping paths run back to the first waypoint
+    if (path.loop && !path.pingPong) points.push(points[0]);
+
+    const lengths = points
+      .slice(1)
+      .map((point, i) => point.distanceTo(points[i]));
+    let distance = getMotionProgress(
+      (path.speed ?? 1) * t,
+      lengths.reduce((sum, length) => sum + length, 0),
+      path
+    );
+
+    for (let i = 0; i < lengths.length; i++) {
+      if (distance <= lengths[i] || i === lengths.length - 1) {
+        const alpha = lengths[i] > 0 ? Math.min(distance / lengths[i], 1) : 1;
+        return points[i].clone().lerp(points[i + 1], alpha);
+      }
+      distance -= lengths[i];
+    }
+    return points[0];
+  }
+
+  /**
+   * Place an object at a world-space transform, whatever it is parented to
+   */
+  private setWorldTransform(obj, position, quaternion) {
+    const parent = obj.parent;
+    if (!parent || parent === this.scene) {
+      obj.position.copy(position);
+      obj.quaternion.copy(quaternion);
+      return;
+    }
+    parent.updateWorldMatrix(true, false);
+    obj.position.copy(parent.worldToLocal(position.clone()));
+    obj.quaternion.copy(
+      parent
+        .getWorldQuaternion(new this.THREE.Quaternion())
+        .invert()
+        .multiply(quaternion)
+    );
+  }
+
+  startAnimate() {
+    this.animate();
+  }
+
+  async setupJOLT() {
+    if (this.jolt && this.jInterface && this.bodyInterface) return true;
+
+    try {
+      if (!this.jolt) {
+        if (this.loadJolt) {
+          const maybeInit = await this.loadJolt();
+          const init =
+            typeof maybeInit === "function"
+              ? maybeInit
+              : maybeInit?.default ?? maybeInit;
+          this.jolt = typeof init === "function" ? await init() : init;
+          if (!this.jolt)
+            throw new Error("joltInit/loadJolt returned no module");
+          console.log("Jolt Physics loaded via injected init");
+        } else if (globalWindow.jolt) {
+          this.jolt = globalWindow.jolt;
+          console.log("Jolt Physics read from window.jolt");
+        } else {
+          throw new Error(
+            "No Jolt provided. Pass deps.jolt or deps.joltInit()"
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load Jolt Physics:", error);
+      return false;
+    }
+
+    try {
+      this.time = 0;
+      this.tick = 0;
+      this.accumulator = 0;
+      this.tempVec3 = this.tempRVec3 = this.tempQuat = null;
+
+      const settings = new this.jolt.JoltSettings();
+      settings.mMaxWorkerThreads = 3;
+
+      // Everything but static-static collides until collision groups are
+      // applied, so the broad-phase filter built from it below stays open
+      const objectFilter = new this.jolt.ObjectLayerPairFilterTable(
+        IsoCard.NUM_OBJECT_LAYERS
+      );
+      for (let a = 0; a < IsoCard.NUM_OBJECT_LAYERS; a++) {
+        for (let b = a; b < IsoCard.NUM_OBJECT_LAYERS; b++) {
+          if (a % 2 || b % 2) objectFilter.EnableCollision(a, b);
+        }
+      }
+
+      const BP_LAYER_NON_MOVING = new this.jolt.BroadPhaseLayer(0);
+      const BP_LAYER_MOVING = new this.jolt.BroadPhaseLayer(1);
+      const NUM_BROAD_PHASE_LAYERS = 2;
+
+      const bpInterface = new this.jolt.BroadPhaseLayerInterfaceTable(
+        IsoCard.NUM_OBJECT_LAYERS,
+        NUM_BROAD_PHASE_LAYERS
+      );
+      for (let layer = 0; layer < IsoCard.NUM_OBJECT_LAYERS; layer++) {
+        bpInterface.MapObjectToBroadPhaseLayer(
+          layer,
+          layer % 2 ? BP_LAYER_MOVING : BP_LAYER_NON_MOVING
+        );
+      }
+
+      settings.mObjectLayerPairFilter = objectFilter;
+      settings.mBroadPhaseLayerInterface = bpInterface;
+      settings.mObjectVsBroadPhaseLayerFilter =
+        new this.jolt.ObjectVsBroadPhaseLayerFilterTable(
+          settings.mBroadPhaseLayerInterface,
+          NUM_BROAD_PHASE_LAYERS,
+          settings.mObjectLayerPairFilter,
           IsoCard.NUM_OBJECT_LAYERS
         );
 
@@ -1579,9 +3733,15 @@ export class IsoCard {
 
       this.physicsSystem = this.jInterface.GetPhysicsSystem();
       this.bodyInterface = this.physicsSystem.GetBodyInterface();
-
-      // apply scene gravity if present
-      const g = this.sceneConfig?.gravity?.vector ?? [0, -9.81, 0];
+      this.objectLayerFilter = objectFilter;
+      this.applyCollisionGroups();
+      this.installContactListener();
+
+      // apply scene gravity if present; radial scenes pull through attractors
+      const g =
+        this.gravityType === "radial"
+          ? [0, 0, 0]
+          : (this.sceneConfig?.gravity?.vector ?? [0, -9.81, 0]);
       this.physicsSystem.SetGravity(new this.jolt.Vec3(g[0], g[1], g[2]));
 
       console.log("Physics initialized successfully");
@@ -1592,12 +3752,14 @@ export class IsoCard {
     }
   }
 
-  updatePhysics(deltaTime) {
+  updatePhysics(deltaTime: number) {
     // When running below 55 Hz, do 2 steps instead of 1
     var numSteps = deltaTime > 1.0 / 55.0 ? 2 : 1;
 
     // Step the physics world
     this.jInterface.Step(deltaTime, numSteps);
+    this.collectCollisionEvents();
+    this.dispatchCollisionEvents();
   }
 
   renderSync() {
@@ -1765,91 +3927,15 @@ export class IsoCard {
         const mesh = obj.threeObj;
         const config = obj.config;
 
-        // Get scaled shape dimensions
-        const scaledShape = this.getScaledShapeDimensions(config, mesh);
-
-        // Create Jolt shape based on the scaled dimensions
-        let joltShape = null;
-
-        if (scaledShape) {
-          switch (scaledShape.type) {
-            case "box":
-              joltShape = new this.jolt.BoxShape(
-                new this.jolt.Vec3(
-                  scaledShape.width / 2,
-                  scaledShape.height / 2,
-                  scaledShape.depth / 2
-                ),
-                0.05,
-                null
-              );
-              break;
-
-            case "sphere":
-              joltShape = new this.jolt.SphereShape(scaledShape.radius);
-              break;
-
-            case "plane":
-              // Use a thin box for plane
-              joltShape = new this.jolt.BoxShape(
-                new this.jolt.Vec3(
-                  scaledShape.width / 2,
-                  0.01,
-                  scaledShape.height / 2
-                ),
-                0.05,
-                null
-              );
-              break;
-
-            case "cylinder":
-              if (scaledShape.radiusTop === scaledShape.radiusBottom) {
-                joltShape = new this.jolt.CylinderShape(
-                  scaledShape.height / 2,
-                  scaledShape.radiusTop
-                );
-              } else {
-                // Use box approximation for cone/tapered cylinder
-                joltShape = new this.jolt.BoxShape(
-                  new this.jolt.Vec3(
-                    Math.max(scaledShape.radiusTop, scaledShape.radiusBottom),
-                    scaledShape.height / 2,
-                    Math.max(scaledShape.radiusTop, scaledShape.radiusBottom)
-                  ),
-                  0.05,
-                  null
-                );
-              }
-              break;
-
-            default:
-              // Default to bounding box
-              const box = new this.THREE.Box3().setFromObject(mesh);
-              const size = new this.THREE.Vector3();
-              box.getSize(size);
-              joltShape = new this.jolt.BoxShape(
-                new this.jolt.Vec3(size.x / 2, size.y / 2, size.z / 2),
-                0.05,
-                null
-              );
-              break;
-          }
-        } else {
-          // No shape config, use bounding box
-          const box = new this.THREE.Box3().setFromObject(mesh);
-          const size = new this.THREE.Vector3();
-          box.getSize(size);
-          joltShape = new this.jolt.BoxShape(
-            new this.jolt.Vec3(size.x / 2, size.y / 2, size.z / 2),
-            0.05,
-            null
-          );
-        }
+        const joltShape = this.createJoltShape(config, mesh, {
+          ...config.physics,
+          motionType: "static",
+        });
 
         if (joltShape) {
-          // Get position and rotation from the mesh
-          const pos = mesh.position;
-          const quat = mesh.quaternion;
+          // Get world position and rotation from the mesh
+          const pos = mesh.getWorldPosition(new this.THREE.Vector3());
+          const quat = mesh.getWorldQuaternion(new this.THREE.Quaternion());
 
           // Create static body
           const creationSettings = new this.jolt.BodyCreationSettings(
@@ -1857,8 +3943,10 @@ export class IsoCard {
             new this.jolt.RVec3(pos.x, pos.y, pos.z),
             new this.jolt.Quat(quat.x, quat.y, quat.z, quat.w),
             this.jolt.EMotionType_Static,
-            IsoCard.LAYER_NON_MOVING
+            this.getObjectLayer(config.physics?.collisionGroup, false)
           );
+          const isSensor = !!config.physics?.isSensor;
+          creationSettings.mIsSensor = isSensor;
 
           const body = this.bodyInterface.CreateBody(creationSettings);
           this.jolt.destroy(creationSettings);
@@ -1876,6 +3964,7 @@ export class IsoCard {
             motionType: "static",
             friction: 0.2,
             restitution: 0.0,
+            ...(isSensor && { isSensor }),
           };
 
           console.log(
@@ -1933,14 +4022,15 @@ export class IsoCard {
       this.dynamicObjects.push(mesh);
 
       // Add to objects list for UI tracking
-      const id = this.objects.length;
+      const id = this.generateObjectId();
       const config = {
+        id,
         type: "mesh",
         shape: { type: "sphere", radius },
         material: { type: "phong", color },
         pos: [position.x, position.y, position.z],
         rot: [0, 0, 0, 1],
-        name: `Test Ball ${id}`,
+        name: this.getUniqueName("Test Ball"),
         layer: "main",
         enabled: true,
       };
@@ -2021,6 +4111,14 @@ export class IsoCard {
       // Clear dynamic objects array
       this.dynamicObjects = [];
 
+      // Constraints die with the world; keep configs so they can be recreated
+      this.constraints.forEach((c) => (c.constraint = null));
+
+      // Drop held controller actions, keep the controllers themselves
+      this.controllers.forEach((entry) => (entry.action = null));
+      this.heldActions.clear();
+      this.lastActionTime = -Infinity;
+
       // Clear saved transforms
       this.savedTransforms.clear();
 
@@ -2031,14 +4129,28 @@ export class IsoCard {
           this.jInterface.destroy();
         } else if (typeof this.jInterface.delete === "function") {
           this.jInterface.delete();
+        } else {
+          this.jolt.destroy(this.jInterface);
         }
         // If neither exists, that's okay - we'll just clear the reference
         this.jInterface = null;
       }
 
+      // The listener outlives the world it was installed on
+      if (this.contactListener) {
+        this.jolt.destroy(this.contactListener);
+        this.contactListener = null;
+      }
+      this.activeContacts.clear();
+      this.pendingCollisionEvents = [];
+      this.collisionEvents = [];
+      this.pendingTriggerEvents = [];
+      this.triggerEvents = [];
+
       // Clear references
       this.physicsSystem = null;
       this.bodyInterface = null;
+      this.objectLayerFilter = null;
 
       // Note: Don't set this.jolt to null as it's the module itself
       // We keep it loaded so we can reinitialize physics later
@@ -2084,6 +4196,31 @@ export class IsoCard {
     return new this.jolt.RVec3(v.x, v.y, v.z);
   }
 
+  /**
+   * Shared Jolt Vec3 set to `v`, for arguments Jolt copies. Only valid until
+   * the next call, so per-step pushes don't allocate.
+   */
+  private scratchVec3(v: Vec3Tuple): any {
+    this.tempVec3 ??= new this.jolt.Vec3();
+    this.tempVec3.Set(v[0], v[1], v[2]);
+    return this.tempVec3;
+  }
+
+  private scratchRVec3(v: Vec3Tuple): any {
+    this.tempRVec3 ??= new this.jolt.RVec3();
+    this.tempRVec3.Set(v[0], v[1], v[2]);
+    return this.tempRVec3;
+  }
+
+  /**
+   * Shared Jolt Quat set to a THREE quaternion; see scratchVec3()
+   */
+  private scratchQuat(q: any): any {
+    this.tempQuat ??= new this.jolt.Quat();
+    this.tempQuat.Set(q.x, q.y, q.z, q.w);
+    return this.tempQuat;
+  }
+
   wrapQuat(q: any): any {
     return new this.THREE.Quaternion(q.GetX(), q.GetY(), q.GetZ(), q.GetW());
   }
@@ -2092,139 +4229,34 @@ export class IsoCard {
     return new this.jolt.Quat(q.x, q.y, q.z, q.w);
   }
 
-  convertObjectToDynamic(id: any, physicsConfig: PhysicsConfig = {}) {
+  convertObjectToDynamic(id: ObjectId, physicsConfig: PhysicsConfig = {}) {
     if (!this.jolt || !this.jInterface) {
       console.error("Physics not initialized");
       return false;
     }
 
     const item = this.objects.find((o) => o.id === id);
-    if (!item || !item.threeObj.isMesh) {
+    if (!item || !(item.threeObj.isMesh || item.threeObj.isGroup)) {
       console.error("Object not found or not a mesh");
       return false;
     }
+    const owner = this.getPhysicsAncestor(item);
+    if (owner) {
+      console.warn(
+        `${item.config.name} is part of ${owner.config.name}'s compound body`
+      );
+      return false;
+    }
+    this.recordAction("convertObjectToDynamic", [id, physicsConfig]);
 
     try {
       const mesh = item.threeObj;
       const config = item.config;
 
       // Remove existing physics body if present
-      if (mesh.userData.body) {
-        const oldBody = mesh.userData.body;
-        this.bodyInterface.RemoveBody(oldBody.GetID());
-        this.bodyInterface.DestroyBody(oldBody.GetID());
-        delete mesh.userData.body;
-        delete mesh.userData.isStatic;
-        delete mesh.userData.isDynamic;
-      }
-
-      // Get scaled shape dimensions
-      const scaledShape = this.getScaledShapeDimensions(config, mesh);
-
-      // Create Jolt shape based on the scaled dimensions
-      let joltShape = null;
-
-      if (scaledShape) {
-        switch (scaledShape.type) {
-          case "box":
-            joltShape = new this.jolt.BoxShape(
-              new this.jolt.Vec3(
-                scaledShape.width / 2,
-                scaledShape.height / 2,
-                scaledShape.depth / 2
-              ),
-              0.05,
-              null
-            );
-            break;
-
-          case "sphere":
-            joltShape = new this.jolt.SphereShape(scaledShape.radius);
-            break;
-
-          case "plane":
-            // Use a thin box for plane
-            joltShape = new this.jolt.BoxShape(
-              new this.jolt.Vec3(
-                scaledShape.width / 2,
-                0.01,
-                scaledShape.height / 2
-              ),
-              0.05,
-              null
-            );
-            break;
-
-          case "cylinder":
-            if (scaledShape.radiusTop === scaledShape.radiusBottom) {
-              joltShape = new this.jolt.CylinderShape(
-                scaledShape.height / 2,
-                scaledShape.radiusTop
-              );
-            } else {
-              // Use box approximation for cone/tapered cylinder
-              joltShape = new this.jolt.BoxShape(
-                new this.jolt.Vec3(
-                  Math.max(scaledShape.radiusTop, scaledShape.radiusBottom),
-                  scaledShape.height / 2,
-                  Math.max(scaledShape.radiusTop, scaledShape.radiusBottom)
-                ),
-                0.05,
-                null
-              );
-            }
-            break;
-
-          case "cone":
-            // Use tapered cylinder or box approximation
-            joltShape = new this.jolt.BoxShape(
-              new this.jolt.Vec3(
-                scaledShape.radius,
-                scaledShape.height / 2,
-                scaledShape.radius
-              ),
-              0.05,
-              null
-            );
-            break;
+      this.destroyObjectBody(item);
 
-          case "torus":
-            // Approximate torus with a cylinder
-            joltShape = new this.jolt.CylinderShape(
-              scaledShape.tube,
-              scaledShape.radius
-            );
-            break;
-          case "capsule":
-            joltShape = new this.jolt.CapsuleShape(
-              scaledShape.height / 2,
-              scaledShape.radius
-            );
-            break;
-
-          default:
-            // Default to bounding box
-            const box = new this.THREE.Box3().setFromObject(mesh);
-            const size = new this.THREE.Vector3();
-            box.getSize(size);
-            joltShape = new this.jolt.BoxShape(
-              new this.jolt.Vec3(size.x / 2, size.y / 2, size.z / 2),
-              0.05,
-              null
-            );
-            break;
-        }
-      } else {
-        // No shape config, use bounding box
-        const box = new this.THREE.Box3().setFromObject(mesh);
-        const size = new this.THREE.Vector3();
-        box.getSize(size);
-        joltShape = new this.jolt.BoxShape(
-          new this.jolt.Vec3(size.x / 2, size.y / 2, size.z / 2),
-          0.05,
-          null
-        );
-      }
+      const joltShape = this.createBodyShape(item, physicsConfig);
 
       if (!joltShape) {
         console.error("Failed to create shape");
@@ -2232,8 +4264,8 @@ export class IsoCard {
       }
 
       // Get position and rotation from the mesh (world transform)
-      const pos = mesh.position;
-      const quat = mesh.quaternion;
+      const pos = mesh.getWorldPosition(new this.THREE.Vector3());
+      const quat = mesh.getWorldQuaternion(new this.THREE.Quaternion());
 
       // Determine motion type
       let motionType;
@@ -2246,15 +4278,23 @@ export class IsoCard {
           break;
         case "dynamic":
         default:
-          motionType = this.jolt.EMotionType_Dynamic;
+          // Scripted motion needs a kinematic body; sensors never fall
+          motionType =
+            config.motion && physicsConfig.motionType === undefined
+              ? this.jolt.EMotionType_Kinematic
+              : physicsConfig.isSensor
+              ? this.jolt.EMotionType_Static
+              : this.jolt.EMotionType_Dynamic;
           break;
       }
+      if (config.motion && motionType !== this.jolt.EMotionType_Kinematic) {
+        console.warn(`Motion on ${config.name} only drives kinematic bodies`);
+      }
 
-      // Determine layer
-      const layer =
-        motionType === this.jolt.EMotionType_Static
-          ? IsoCard.LAYER_NON_MOVING
-          : IsoCard.LAYER_MOVING;
+      const layer = this.getObjectLayer(
+        physicsConfig.collisionGroup,
+        motionType !== this.jolt.EMotionType_Static
+      );
 
       // Create body with physics properties
       const creationSettings = new this.jolt.BodyCreationSettings(
@@ -2264,13 +4304,11 @@ export class IsoCard {
         motionType,
         layer
       );
+      creationSettings.mIsSensor = !!physicsConfig.isSensor;
 
       // Apply physics properties
-      if (
-        physicsConfig.mass !== undefined &&
-        motionType === this.jolt.EMotionType_Dynamic
-      ) {
-        creationSettings.mMassPropertiesOverride.mMass = physicsConfig.mass;
+      if (motionType !== this.jolt.EMotionType_Static) {
+        this.applyMotionSettings(creationSettings, joltShape, physicsConfig);
       }
 
       const body = this.bodyInterface.CreateBody(creationSettings);
@@ -2298,6 +4336,8 @@ export class IsoCard {
       // Store physics config in the object config for serialization
       item.config.physics = physicsConfig;
 
+      this.createPendingConstraints();
+
       // Add to dynamic objects list if dynamic
       if (motionType === this.jolt.EMotionType_Dynamic) {
         if (!this.dynamicObjects.includes(mesh)) {
@@ -2323,7 +4363,7 @@ export class IsoCard {
     }
   }
 
-  getObjectPhysicsConfig(id) {
+  getObjectPhysicsConfig(id: ObjectId): PhysicsConfig | null {
     const item = this.objects.find((o) => o.id === id);
     if (!item || !item.threeObj.userData.body) {
       return null;
@@ -2331,6 +4371,12 @@ export class IsoCard {
 
     const body = item.threeObj.userData.body;
     const userData = item.threeObj.userData;
+    const physicsConfig: PhysicsConfig = userData.physicsConfig || {};
+
+    // Static bodies have no motion properties; report what was configured
+    const motion = body.IsStatic() ? null : body.GetMotionProperties();
+    const inverseMass = motion ? motion.GetInverseMass() : 0;
+    const allowedDOFs = motion ? motion.GetAllowedDOFs() : undefined;
 
     return {
       motionType: userData.isDynamic
@@ -2338,21 +4384,841 @@ export class IsoCard {
         : userData.isStatic
         ? "static"
         : "kinematic",
-      mass: userData.physicsConfig?.mass || 1.0,
-      friction: userData.physicsConfig?.friction || body.GetFriction(),
-      restitution: userData.physicsConfig?.restitution || body.GetRestitution(),
-      linearDamping: userData.physicsConfig?.linearDamping || 0.05,
-      angularDamping: userData.physicsConfig?.angularDamping || 0.05,
-      gravityFactor: userData.physicsConfig?.gravityFactor || 1.0,
-      linearVelocity: userData.physicsConfig?.linearVelocity || [0, 0, 0],
-      angularVelocity: userData.physicsConfig?.angularVelocity || [0, 0, 0],
+      mass: inverseMass > 0 ? 1 / inverseMass : physicsConfig.mass || 1.0,
+      friction: body.GetFriction(),
+      restitution: body.GetRestitution(),
+      linearDamping: motion
+        ? motion.GetLinearDamping()
+        : (physicsConfig.linearDamping ?? 0.05),
+      angularDamping: motion
+        ? motion.GetAngularDamping()
+        : (physicsConfig.angularDamping ?? 0.05),
+      gravityFactor: motion
+        ? motion.GetGravityFactor()
+        : (physicsConfig.gravityFactor ?? 1.0),
+      linearVelocity: this.wrapVec3(body.GetLinearVelocity()).toArray(),
+      angularVelocity: this.wrapVec3(body.GetAngularVelocity()).toArray(),
+      allowSleeping: body.GetAllowSleeping(),
+      motionQuality:
+        motion?.GetMotionQuality() === this.jolt.EMotionQuality_LinearCast
+          ? "linearCast"
+          : "discrete",
+      centerOfMassOffset: physicsConfig.centerOfMassOffset || [0, 0, 0],
+      inertia: motion ? this.getBodyInertia(motion) : physicsConfig.inertia,
+      maxLinearVelocity: motion
+        ? motion.GetMaxLinearVelocity()
+        : physicsConfig.maxLinearVelocity,
+      maxAngularVelocity: motion
+        ? motion.GetMaxAngularVelocity()
+        : physicsConfig.maxAngularVelocity,
+      allowedDOFs:
+        allowedDOFs === undefined
+          ? physicsConfig.allowedDOFs
+          : IsoCard.SIX_DOF_AXES.filter(
+              (axis) => (allowedDOFs & this.getAllowedDOFs([axis])) !== 0
+            ),
+      isSensor: body.IsSensor(),
+      collisionGroup: physicsConfig.collisionGroup,
     };
   }
 
-  getObjectById(id) {
-    return this.objects.find((o) => o.id === id);
-  }
-
+  /**
+   * Push a dynamic body for the next step, optionally at a world-space point
+   * (which also spins it). Forces are cleared after every step.
+   */
+  applyForce(id: ObjectId, force: Vec3Tuple, point?: Vec3Tuple): boolean {
+    const body = this.getBodyForAction(id, "applyForce", true);
+    if (!body) return false;
+    this.recordAction("applyForce", [id, force, point]);
+
+    if (point) {
+      this.bodyInterface.AddForce(
+        body.GetID(),
+        this.scratchVec3(force),
+        this.scratchRVec3(point),
+        this.jolt.EActivation_Activate
+      );
+    } else {
+      this.bodyInterface.AddForce(
+        body.GetID(),
+        this.scratchVec3(force),
+        this.jolt.EActivation_Activate
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Change a dynamic body's momentum at once, optionally at a world-space point
+   */
+  applyImpulse(id: ObjectId, impulse: Vec3Tuple, point?: Vec3Tuple): boolean {
+    const body = this.getBodyForAction(id, "applyImpulse", true);
+    if (!body) return false;
+    this.recordAction("applyImpulse", [id, impulse, point]);
+
+    if (point) {
+      this.bodyInterface.AddImpulse(
+        body.GetID(),
+        this.scratchVec3(impulse),
+        this.scratchRVec3(point)
+      );
+    } else {
+      this.bodyInterface.AddImpulse(body.GetID(), this.scratchVec3(impulse));
+    }
+    this.bodyInterface.ActivateBody(body.GetID());
+    return true;
+  }
+
+  /**
+   * Twist a dynamic body for the next step
+   */
+  applyTorque(id: ObjectId, torque: Vec3Tuple): boolean {
+    const body = this.getBodyForAction(id, "applyTorque", true);
+    if (!body) return false;
+    this.recordAction("applyTorque", [id, torque]);
+
+    this.bodyInterface.AddTorque(
+      body.GetID(),
+      this.scratchVec3(torque),
+      this.jolt.EActivation_Activate
+    );
+    return true;
+  }
+
+  setLinearVelocity(id: ObjectId, velocity: Vec3Tuple): boolean {
+    const body = this.getBodyForAction(id, "setLinearVelocity", false);
+    if (!body) return false;
+    this.recordAction("setLinearVelocity", [id, velocity]);
+
+    this.bodyInterface.SetLinearVelocity(
+      body.GetID(),
+      this.scratchVec3(velocity)
+    );
+    this.bodyInterface.ActivateBody(body.GetID());
+    return true;
+  }
+
+  /**
+   * Set a body's spin in radians per second
+   */
+  setAngularVelocity(id: ObjectId, velocity: Vec3Tuple): boolean {
+    const body = this.getBodyForAction(id, "setAngularVelocity", false);
+    if (!body) return false;
+    this.recordAction("setAngularVelocity", [id, velocity]);
+
+    this.bodyInterface.SetAngularVelocity(
+      body.GetID(),
+      this.scratchVec3(velocity)
+    );
+    this.bodyInterface.ActivateBody(body.GetID());
+    return true;
+  }
+
+  /**
+   * Current world transform, velocities and sleep state of an object's body
+   */
+  getBodyState(id: ObjectId): BodyState | null {
+    const body = this.getObjectById(id)?.threeObj.userData.body;
+    if (!body) {
+      console.warn(`getBodyState: ${id} has no physics body`);
+      return null;
+    }
+    return this.readBodyState(body);
+  }
+
+  /**
+   * getBodyState() of every object that has a physics body
+   */
+  getBodyStates(): Record<ObjectId, BodyState> {
+    const states: Record<ObjectId, BodyState> = {};
+    this.objects.forEach((o) => {
+      const body = o.threeObj.userData.body;
+      if (body) states[o.id] = this.readBodyState(body);
+    });
+    return states;
+  }
+
+  /**
+   * Closest physics body along a ray. Direction needn't be normalized.
+   */
+  raycast(
+    origin: Vec3Tuple,
+    direction: Vec3Tuple,
+    maxDistance: number = 1000,
+    filter: QueryFilter = {}
+  ): RaycastHit | null {
+    return this.castRay(origin, direction, maxDistance, filter)[0] ?? null;
+  }
+
+  /**
+   * Every physics body along a ray, nearest first, one hit per object
+   */
+  raycastAll(
+    origin: Vec3Tuple,
+    direction: Vec3Tuple,
+    maxDistance: number = 1000,
+    filter: QueryFilter = {}
+  ): RaycastHit[] {
+    return this.castRay(origin, direction, maxDistance, filter);
+  }
+
+  /**
+   * First body a sphere touches when swept from origin along direction
+   */
+  sphereCast(
+    origin: Vec3Tuple,
+    radius: number,
+    direction: Vec3Tuple,
+    maxDistance: number = 1000,
+    filter: QueryFilter = {}
+  ): RaycastHit | null {
+    return this.shapeCast(
+      { type: "sphere", radius },
+      origin,
+      direction,
+      maxDistance,
+      filter
+    );
+  }
+
+  /**
+   * First body any scene shape touches when swept from origin along
+   * direction, optionally rotated by `euler` (degrees)
+   */
+  shapeCast(
+    shape: ShapeConfig,
+    origin: Vec3Tuple,
+    direction: Vec3Tuple,
+    maxDistance: number = 1000,
+    filter: QueryFilter & { euler?: Vec3Tuple } = {}
+  ): RaycastHit | null {
+    const sweep = this.getQueryVector(direction, maxDistance, "shapeCast");
+    const joltShape = sweep && this.createQueryShape(shape);
+    if (!joltShape) return null;
+
+    const jolt = this.jolt;
+    const transform = this.getQueryTransform(joltShape, origin, filter.euler);
+    const scale = new jolt.Vec3(1, 1, 1);
+    const sweepVec = new jolt.Vec3(sweep.x, sweep.y, sweep.z);
+    const cast = new jolt.RShapeCast(joltShape, scale, transform, sweepVec);
+    const settings = new jolt.ShapeCastSettings();
+    const baseOffset = new jolt.RVec3(0, 0, 0);
+    const collector = new jolt.CastShapeAllHitCollisionCollector();
+    const filters = this.createQueryFilters(filter);
+    this.physicsSystem
+      .GetNarrowPhaseQuery()
+      .CastShape(cast, settings, baseOffset, collector, ...filters);
+
+    const hits: RaycastHit[] = [];
+    const results = collector.mHits;
+    for (let i = 0; i < results.size(); i++) {
+      const result = results.at(i);
+      const item = this.getQueryHitObject(result.mBodyID2, filter);
+      if (!item) continue;
+      hits.push({
+        id: item.id,
+        point: this.wrapVec3(result.mContactPointOn2).toArray(),
+        normal: this.wrapVec3(result.mPenetrationAxis)
+          .normalize()
+          .negate()
+          .toArray(),
+        fraction: result.mFraction,
+        distance: result.mFraction * maxDistance,
+      });
+    }
+
+    [
+      cast,
+      settings,
+      baseOffset,
+      collector,
+      transform,
+      scale,
+      sweepVec,
+      ...filters,
+    ].forEach((obj) => jolt.destroy(obj));
+    joltShape.Release();
+    return this.nearestHits(hits)[0] ?? null;
+  }
+
+  /**
+   * Every physics body overlapping a sphere
+   */
+  overlapSphere(
+    center: Vec3Tuple,
+    radius: number,
+    filter: QueryFilter = {}
+  ): OverlapHit[] {
+    return this.overlapShape({ type: "sphere", radius }, center, filter);
+  }
+
+  /**
+   * Every physics body overlapping a box of full extents `size`, optionally
+   * rotated by `euler` (degrees)
+   */
+  overlapBox(
+    center: Vec3Tuple,
+    size: Vec3Tuple,
+    filter: QueryFilter & { euler?: Vec3Tuple } = {}
+  ): OverlapHit[] {
+    const [width, height, depth] = size;
+    return this.overlapShape(
+      { type: "box", width, height, depth },
+      center,
+      filter
+    );
+  }
+
+  private castRay(
+    origin: Vec3Tuple,
+    direction: Vec3Tuple,
+    maxDistance: number,
+    filter: QueryFilter
+  ): RaycastHit[] {
+    const ray = this.getQueryVector(direction, maxDistance, "raycast");
+    if (!ray) return [];
+
+    const jolt = this.jolt;
+    const rayOrigin = new jolt.RVec3(...origin);
+    const rayDirection = new jolt.Vec3(ray.x, ray.y, ray.z);
+    const rayCast = new jolt.RRayCast(rayOrigin, rayDirection);
+    const settings = new jolt.RayCastSettings();
+    const collector = new jolt.CastRayAllHitCollisionCollector();
+    const filters = this.createQueryFilters(filter);
+    this.physicsSystem
+      .GetNarrowPhaseQuery()
+      .CastRay(rayCast, settings, collector, ...filters);
+
+    const hits: RaycastHit[] = [];
+    const results = collector.mHits;
+    const at = new jolt.RVec3(0, 0, 0);
+    for (let i = 0; i < results.size(); i++) {
+      const result = results.at(i);
+      const item = this.getQueryHitObject(result.mBodyID, filter);
+      if (!item) continue;
+      const fraction = result.mFraction;
+      const point = new this.THREE.Vector3(...origin).addScaledVector(
+        ray,
+        fraction
+      );
+      at.Set(point.x, point.y, point.z);
+      const normal = item.threeObj.userData.body.GetWorldSpaceSurfaceNormal(
+        result.mSubShapeID2,
+        at
+      );
+      hits.push({
+        id: item.id,
+        point: point.toArray(),
+        normal: this.wrapVec3(normal).toArray(),
+        fraction,
+        distance: fraction * maxDistance,
+      });
+    }
+
+    [
+      rayCast,
+      rayOrigin,
+      rayDirection,
+      settings,
+      collector,
+      at,
+      ...filters,
+    ].forEach((obj) => jolt.destroy(obj));
+    return this.nearestHits(hits);
+  }
+
+  private overlapShape(
+    shape: ShapeConfig,
+    position: Vec3Tuple,
+    filter: QueryFilter & { euler?: Vec3Tuple }
+  ): OverlapHit[] {
+    if (!this.physicsSystem) {
+      console.warn("overlap query: physics is not set up");
+      return [];
+    }
+    const joltShape = this.createQueryShape(shape);
+    if (!joltShape) return [];
+
+    const jolt = this.jolt;
+    const transform = this.getQueryTransform(joltShape, position, filter.euler);
+    const scale = new jolt.Vec3(1, 1, 1);
+    const settings = new jolt.CollideShapeSettings();
+    const baseOffset = new jolt.RVec3(0, 0, 0);
+    const collector = new jolt.CollideShapeAllHitCollisionCollector();
+    const filters = this.createQueryFilters(filter);
+    this.physicsSystem
+      .GetNarrowPhaseQuery()
+      .CollideShape(
+        joltShape,
+        scale,
+        transform,
+        settings,
+        baseOffset,
+        collector,
+        ...filters
+      );
+
+    // Compound bodies report a contact per part; keep the deepest
+    const deepest = new Map<ObjectId, OverlapHit>();
+    const results = collector.mHits;
+    for (let i = 0; i < results.size(); i++) {
+      const result = results.at(i);
+      const item = this.getQueryHitObject(result.mBodyID2, filter);
+      if (!item) continue;
+      const depth = result.mPenetrationDepth;
+      if (deepest.has(item.id) && deepest.get(item.id).depth >= depth) {
+        continue;
+      }
+      deepest.set(item.id, {
+        id: item.id,
+        point: this.wrapVec3(result.mContactPointOn2).toArray(),
+        normal: this.wrapVec3(result.mPenetrationAxis).normalize().toArray(),
+        depth,
+      });
+    }
+
+    [transform, scale, settings, baseOffset, collector, ...filters].forEach(
+      (obj) => jolt.destroy(obj)
+    );
+    joltShape.Release();
+    return [...deepest.values()];
+  }
+
+  /**
+   * Cast vector for a query, or null with a warning when it can't run
+   */
+  private getQueryVector(
+    direction: Vec3Tuple,
+    maxDistance: number,
+    method: string
+  ) {
+    if (!this.physicsSystem) {
+      console.warn(`${method}: physics is not set up`);
+      return null;
+    }
+    const vector = new this.THREE.Vector3(...direction);
+    if (vector.lengthSq() === 0 || !(maxDistance > 0)) {
+      console.warn(`${method}: needs a non-zero direction and maxDistance`);
+      return null;
+    }
+    return vector.setLength(maxDistance);
+  }
+
+  /**
+   * Jolt shape for a scene shape config, referenced until the caller releases it
+   */
+  private createQueryShape(shape: ShapeConfig) {
+    const geometry = this.createGeometry(shape);
+    if (!geometry) return null;
+    const joltShape = this.createJoltShape(
+      { shape },
+      new this.THREE.Mesh(geometry),
+      {},
+      new this.THREE.Vector3(1, 1, 1)
+    );
+    geometry.dispose();
+    joltShape?.AddRef();
+    return joltShape;
+  }
+
+  /**
+   * Center-of-mass transform that puts a query shape's origin at `position`
+   */
+  private getQueryTransform(
+    joltShape,
+    position: Vec3Tuple,
+    euler: Vec3Tuple = [0, 0, 0]
+  ) {
+    const quaternion = new this.THREE.Quaternion().setFromEuler(
+      new this.THREE.Euler(...euler.map((deg) => (deg * Math.PI) / 180))
+    );
+    const center = this.wrapVec3(joltShape.GetCenterOfMass())
+      .applyQuaternion(quaternion)
+      .add(new this.THREE.Vector3(...position));
+    const jolt = this.jolt;
+    const rotation = new jolt.Quat(
+      quaternion.x,
+      quaternion.y,
+      quaternion.z,
+      quaternion.w
+    );
+    const translation = new jolt.RVec3(center.x, center.y, center.z);
+    // sRotation() returns a shared temporary; copy it into a matrix the
+    // caller owns and destroys
+    const transform = new jolt.RMat44();
+    transform.SetRotation(transform.sRotation(rotation).GetRotation());
+    transform.SetTranslation(translation);
+    jolt.destroy(rotation);
+    jolt.destroy(translation);
+    return transform;
+  }
+
+  /**
+   * Broad-phase, object-layer, body and shape filters for a NarrowPhaseQuery.
+   * Everything else in QueryFilter is checked per hit.
+   */
+  private createQueryFilters(filter: QueryFilter) {
+    const objectLayerFilter =
+      filter.collisionGroup !== undefined && this.objectLayerFilter
+        ? new this.jolt.DefaultObjectLayerFilter(
+            this.objectLayerFilter,
+            this.getObjectLayer(filter.collisionGroup, true)
+          )
+        : new this.jolt.ObjectLayerFilter();
+    return [
+      new this.jolt.BroadPhaseLayerFilter(),
+      objectLayerFilter,
+      new this.jolt.BodyFilter(),
+      new this.jolt.ShapeFilter(),
+    ];
+  }
+
+  /**
+   * Scene object a query hit belongs to, or null when the filter skips it.
+   * Bodies that aren't scene objects (createFloor()) are skipped too.
+   */
+  private getQueryHitObject(bodyID, filter: QueryFilter): SceneObject | null {
+    const body = this.physicsSystem
+      .GetBodyLockInterfaceNoLock()
+      .TryGetBody(bodyID);
+    const item = this.objects.find((o) => o.threeObj.userData.body === body);
+    if (!item) return null;
+    if (body.IsSensor() && !filter.includeSensors) return null;
+    if (filter.ignore?.includes(item.id)) return null;
+    if (filter.accept && !filter.accept(item.id)) return null;
+    return item;
+  }
+
+  /**
+   * Hits sorted nearest first, keeping the nearest one per object
+   */
+  private nearestHits(hits: RaycastHit[]): RaycastHit[] {
+    const seen = new Set<ObjectId>();
+    return hits
+      .sort((a, b) => a.fraction - b.fraction)
+      .filter((hit) => !seen.has(hit.id) && !!seen.add(hit.id));
+  }
+
+  /**
+   * Latest sample of each of an object's sensors, keyed by sensor name.
+   * Sensors are sampled after physics steps, so this is empty until the first.
+   */
+  getSensorReadings(id: ObjectId): Record<string, SensorReading> | null {
+    const item = this.getObjectById(id);
+    if (!item) {
+      console.warn(`getSensorReadings: object ${id} not found`);
+      return null;
+    }
+    const readings: Record<string, SensorReading> = {};
+    (item.threeObj.userData.sensors || []).forEach((sensor) => {
+      if (sensor.reading) readings[sensor.name] = sensor.reading;
+    });
+    return readings;
+  }
+
+  /**
+   * Start an object's sensors over from its current `sensors` list
+   */
+  private attachSensors(item) {
+    const obj = item.threeObj;
+    const sensors: SensorConfig[] = item.config.sensors;
+    if (!Array.isArray(sensors) || !sensors.length) {
+      delete obj.userData.sensors;
+      return;
+    }
+
+    const counts: Record<string, number> = {};
+    obj.userData.sensors = sensors.map((config) => {
+      const count = (counts[config.type] = (counts[config.type] || 0) + 1);
+      return {
+        config,
+        name: config.name ?? `${config.type}${count > 1 ? count : ""}`,
+        lastSample: null,
+        reading: null,
+        // Pose and velocity at the last sample, for the IMU
+        previous: null,
+      };
+    });
+  }
+
+  /**
+   * Sample every sensor that is due, once the step's transforms and contacts
+   * are in
+   */
+  private sampleSensors() {
+    this.objects.forEach((item) => {
+      const sensors = item.threeObj.userData.sensors;
+      if (!sensors) return;
+      sensors.forEach((sensor) => {
+        const hz = sensor.config.hz;
+        if (
+          sensor.lastSample !== null &&
+          hz > 0 &&
+          this.time - sensor.lastSample < 1 / hz - 1e-9
+        ) {
+          return;
+        }
+        sensor.reading = this.readSensor(item, sensor);
+        sensor.lastSample = this.time;
+      });
+    });
+  }
+
+  private readSensor(item, sensor): SensorReading | null {
+    const config: SensorConfig = sensor.config;
+    const obj = item.threeObj;
+    const quaternion = obj
+      .getWorldQuaternion(new this.THREE.Quaternion())
+      .multiply(
+        new this.THREE.Quaternion().setFromEuler(
+          new this.THREE.Euler(
+            ...(config.euler || [0, 0, 0]).map((deg) =>
+              this.degreesToRadians(deg)
+            )
+          )
+        )
+      );
+    const position = new this.THREE.Vector3(
+      ...(config.offset || [0, 0, 0])
+    ).applyMatrix4(obj.matrixWorld);
+
+    // Rays start inside the object's own body, which would hide everything
+    const owner = obj.userData.body ? item : this.getPhysicsAncestor(item);
+    const ownerId: ObjectId = owner?.id ?? item.id;
+    const filter: QueryFilter = { ignore: [item.id, ownerId] };
+    const base = { name: sensor.name, tick: this.tick, time: this.time };
+
+    switch (config.type) {
+      case "lidar":
+        return {
+          ...base,
+          type: "lidar",
+          ...this.readLidar(config, position, quaternion, filter),
+        };
+      case "depth":
+        return {
+          ...base,
+          type: "depth",
+          ...this.readDepth(config, position, quaternion, filter),
+        };
+      case "imu":
+        return {
+          ...base,
+          type: "imu",
+          ...this.readImu(sensor, position, quaternion, owner),
+        };
+      case "contact":
+        return {
+          ...base,
+          type: "contact",
+          contacts: this.readContacts(ownerId),
+        };
+      case "proximity":
+        return {
+          ...base,
+          type: "proximity",
+          ...this.readProximity(config, position, filter),
+        };
+      default:
+        console.warn(
+          `Unknown sensor type on ${item.id}: ${(config as AnyRecord).type}`
+        );
+        return null;
+    }
+  }
+
+  private readLidar(
+    config: LidarSensorConfig,
+    position,
+    quaternion,
+    filter: QueryFilter
+  ) {
+    const rays = Math.max(1, Math.floor(config.rays ?? 360));
+    const fov = config.fov ?? 360;
+    const range = config.range ?? 10;
+    // A full circle would otherwise scan its first angle twice
+    const angleIncrement =
+      fov >= 360 || rays === 1 ? fov / rays : fov / (rays - 1);
+    const angleMin = rays === 1 ? 0 : -fov / 2;
+
+    const up = new this.THREE.Vector3(0, 1, 0);
+    const origin = position.toArray();
+    const ranges: number[] = [];
+    const hits: (ObjectId | null)[] = [];
+    for (let i = 0; i < rays; i++) {
+      const direction = new this.THREE.Vector3(0, 0, -1)
+        .applyAxisAngle(
+          up,
+          this.degreesToRadians(angleMin + i * angleIncrement)
+        )
+        .applyQuaternion(quaternion);
+      const hit = this.raycast(origin, direction.toArray(), range, filter);
+      ranges.push(hit ? hit.distance : Infinity);
+      hits.push(hit ? hit.id : null);
+    }
+    return { angleMin, angleIncrement, ranges, hits };
+  }
+
+  private readDepth(
+    config: DepthSensorConfig,
+    position,
+    quaternion,
+    filter: QueryFilter
+  ) {
+    const width = Math.max(1, Math.floor(config.width ?? 32));
+    const height = Math.max(1, Math.floor(config.height ?? 24));
+    const range = config.range ?? 10;
+    const tanY = Math.tan(this.degreesToRadians(config.fov ?? 60) / 2);
+    const tanX = (tanY * width) / height;
+
+    const origin = position.toArray();
+    const depths: number[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // One unit along the view axis, so depth = distance / length
+        const ray = new this.THREE.Vector3(
+          (((x + 0.5) / width) * 2 - 1) * tanX,
+          (1 - ((y + 0.5) / height) * 2) * tanY,
+          -1
+        );
+        const length = ray.length();
+        const hit = this.raycast(
+          origin,
+          ray.applyQuaternion(quaternion).toArray(),
+          range * length,
+          filter
+        );
+        depths.push(hit ? hit.distance / length : Infinity);
+      }
+    }
+    return { width, height, depths };
+  }
+
+  /**
+   * Velocities come from the sensor's pose at the previous sample, so they
+   * work the same for dynamic bodies and objects moved by motions
+   */
+  private readImu(sensor, position, quaternion, owner) {
+    const previous = sensor.previous;
+    const dt = previous ? this.time - sensor.lastSample : 0;
+    const velocity = new this.THREE.Vector3();
+    const angularVelocity = new this.THREE.Vector3();
+    const acceleration = new this.THREE.Vector3();
+    if (previous && dt > 0) {
+      velocity.subVectors(position, previous.position).divideScalar(dt);
+      if (previous.velocity) {
+        acceleration.subVectors(velocity, previous.velocity).divideScalar(dt);
+      }
+
+      // World-space rotation since the last sample, as axis * angle / dt
+      const delta = quaternion
+        .clone()
+        .multiply(previous.quaternion.clone().invert());
+      if (delta.w < 0) delta.set(-delta.x, -delta.y, -delta.z, -delta.w);
+      const sinHalf = Math.sqrt(Math.max(0, 1 - delta.w * delta.w));
+      if (sinHalf > 1e-9) {
+        const angle = 2 * Math.acos(Math.min(1, delta.w));
+        angularVelocity
+          .set(delta.x, delta.y, delta.z)
+          .multiplyScalar(angle / sinHalf / dt);
+      }
+    }
+    sensor.previous = {
+      position: position.clone(),
+      quaternion: quaternion.clone(),
+      velocity: previous && dt > 0 ? velocity : null,
+    };
+
+    const gravity = this.getGravityAt(
+      position,
+      this.getAttractors(),
+      this.sceneConfig.gravity?.zones || [],
+      this.wrapVec3(this.physicsSystem.GetGravity()),
+      owner?.threeObj.userData.body
+    );
+    const toSensor = quaternion.clone().invert();
+    return {
+      orientation: quaternion.toArray() as QuatTuple,
+      angularVelocity: angularVelocity.applyQuaternion(toSensor).toArray(),
+      linearAcceleration: acceleration
+        .sub(gravity)
+        .applyQuaternion(toSensor)
+        .toArray(),
+    };
+  }
+
+  private readContacts(id: ObjectId): ContactReading["contacts"] {
+    const contacts: ContactReading["contacts"] = [];
+    this.activeContacts.forEach((pair) => {
+      if (pair.objectA !== id && pair.objectB !== id) return;
+      const { point, normal, penetrationDepth } = pair.contact;
+      const isA = pair.objectA === id;
+      contacts.push({
+        id: isA ? pair.objectB : pair.objectA,
+        point,
+        // Pair normals point from objectA towards objectB
+        normal: isA ? normal : (normal.map((v) => -v) as Vec3Tuple),
+        penetrationDepth,
+      });
+    });
+    return contacts;
+  }
+
+  private readProximity(
+    config: ProximitySensorConfig,
+    position,
+    filter: QueryFilter
+  ) {
+    const range = config.range ?? 1;
+    // Penetration into the query sphere is how far inside range a body is
+    const nearby = this.overlapSphere(position.toArray(), range, filter)
+      .map((hit) => ({ id: hit.id, distance: Math.max(0, range - hit.depth) }))
+      .sort((a, b) => a.distance - b.distance);
+    return {
+      detected: nearby.map((hit) => hit.id),
+      distance: nearby.length ? nearby[0].distance : Infinity,
+    };
+  }
+
+  /**
+   * Body that a runtime force/velocity call may act on, or null with a warning
+   */
+  private getBodyForAction(id: ObjectId, method: string, dynamicOnly: boolean) {
+    const item = this.getObjectById(id);
+    if (!item) {
+      console.warn(`${method}: object ${id} not found`);
+      return null;
+    }
+    const body = item.threeObj.userData.body;
+    if (!body || !this.bodyInterface) {
+      console.warn(`${method}: ${id} has no physics body`);
+      return null;
+    }
+    if (dynamicOnly ? !body.IsDynamic() : body.IsStatic()) {
+      console.warn(
+        `${method}: ${id} must be ${dynamicOnly ? "dynamic" : "dynamic or kinematic"}`
+      );
+      return null;
+    }
+    return body;
+  }
+
+  getObjectById(id: ObjectId): SceneObject | undefined {
+    return this.objects.find((o) => o.id === id);
+  }
+
+  getObjectByName(name: string): SceneObject | undefined {
+    return this.objects.find((o) => o.config.name === name);
+  }
+
+  setDuplicateNamePolicy(policy: DuplicateNamePolicy) {
+    this.duplicateNamePolicy = policy;
+  }
+
+  getDuplicateNamePolicy(): DuplicateNamePolicy {
+    return this.duplicateNamePolicy;
+  }
+
   saveObjectTransforms() {
     this.savedTransforms.clear();
     this.objects.forEach((obj) => {
@@ -2380,19 +5246,16 @@ export class IsoCard {
         // Update physics body position if it exists
         if (obj.threeObj.userData.body && this.bodyInterface) {
           const body = obj.threeObj.userData.body;
+          const position = obj.threeObj.getWorldPosition(
+            new this.THREE.Vector3()
+          );
+          const quaternion = obj.threeObj.getWorldQuaternion(
+            new this.THREE.Quaternion()
+          );
           this.bodyInterface.SetPositionAndRotation(
             body.GetID(),
-            new this.jolt.RVec3(
-              transforms.position.x,
-              transforms.position.y,
-              transforms.position.z
-            ),
-            new this.jolt.Quat(
-              transforms.quaternion.x,
-              transforms.quaternion.y,
-              transforms.quaternion.z,
-              transforms.quaternion.w
-            ),
+            this.unwrapRVec3(position),
+            this.unwrapQuat(quaternion),
             this.jolt.EActivation_Activate
           );
 
@@ -2405,7 +5268,7 @@ export class IsoCard {
     console.log(`Restored transforms for ${this.savedTransforms.size} objects`);
   }
 
-  batchConvertToPhysics(objectIds, physicsConfig) {
+  batchConvertToPhysics(objectIds: ObjectId[], physicsConfig: PhysicsConfig) {
     if (!this.jolt || !this.jInterface) {
       console.error("Physics not initialized");
       return { success: false, message: "Physics not initialized" };
@@ -2449,7 +5312,8 @@ export class IsoCard {
 
     this.isPhysicsRunning = true;
     console.log("Physics simulation started");
-    this.lastActionTime = 0;
+    this.lastActionTime = -Infinity;
+    this.accumulator = 0;
     return true;
   }
 
@@ -2481,25 +5345,490 @@ export class IsoCard {
     return this.isPhysicsRunning;
   }
 
-  getScaledShapeDimensions(config, mesh) {
-    const scale = mesh.scale;
-    const shape = config.shape;
+  /**
+   * Build the Jolt collision shape for a mesh object.
+   * `physicsConfig.collider` overrides the per-shape choice made in "auto" mode.
+   */
+  /**
+   * Collision shape for an object's body: a compound when it has children,
+   * shifted when the config moves the center of mass
+   */
+  private createBodyShape(item, physicsConfig: PhysicsConfig = {}) {
+    const obj = item.threeObj;
+    const shape = this.hasChildObjects(obj)
+      ? this.createCompoundShape(item, physicsConfig)
+      : obj.isMesh
+      ? this.createJoltShape(item.config, obj, physicsConfig)
+      : null;
+    if (!shape || !physicsConfig.centerOfMassOffset) return shape;
+
+    return new this.jolt.OffsetCenterOfMassShape(
+      shape,
+      this.unwrapVec3(
+        new this.THREE.Vector3().fromArray(physicsConfig.centerOfMassOffset)
+      )
+    );
+  }
 
-    if (!shape) return null;
+  /**
+   * Copy the motion-related parts of a PhysicsConfig onto BodyCreationSettings
+   */
+  private applyMotionSettings(settings, shape, physicsConfig: PhysicsConfig) {
+    const {
+      linearDamping,
+      angularDamping,
+      gravityFactor,
+      linearVelocity,
+      angularVelocity,
+      allowSleeping,
+      motionQuality,
+      maxLinearVelocity,
+      maxAngularVelocity,
+      allowedDOFs,
+    } = physicsConfig;
+
+    if (linearDamping !== undefined) settings.mLinearDamping = linearDamping;
+    if (angularDamping !== undefined) settings.mAngularDamping = angularDamping;
+    if (gravityFactor !== undefined) settings.mGravityFactor = gravityFactor;
+    if (linearVelocity)
+      settings.mLinearVelocity = this.unwrapVec3(
+        new this.THREE.Vector3().fromArray(linearVelocity)
+      );
+    if (angularVelocity)
+      settings.mAngularVelocity = this.unwrapVec3(
+        new this.THREE.Vector3().fromArray(angularVelocity)
+      );
+    if (allowSleeping !== undefined) settings.mAllowSleeping = allowSleeping;
+    if (motionQuality === "linearCast") {
+      settings.mMotionQuality = this.jolt.EMotionQuality_LinearCast;
+    }
+    if (maxLinearVelocity !== undefined) {
+      settings.mMaxLinearVelocity = maxLinearVelocity;
+    }
+    if (maxAngularVelocity !== undefined) {
+      settings.mMaxAngularVelocity = maxAngularVelocity;
+    }
+    if (allowedDOFs) settings.mAllowedDOFs = this.getAllowedDOFs(allowedDOFs);
+
+    const massProperties = this.getMassPropertiesOverride(shape, physicsConfig);
+    if (massProperties) {
+      settings.mOverrideMassProperties =
+        this.jolt.EOverrideMassProperties_MassAndInertiaProvided;
+      settings.mMassPropertiesOverride = massProperties;
+      this.jolt.destroy(massProperties);
+    }
+  }
 
-    const scaledShape = { ...shape };
+  /**
+   * The shape's mass properties with the config's mass and inertia swapped in,
+   * or null when the config overrides neither. Caller destroys the result.
+   */
+  private getMassPropertiesOverride(shape, physicsConfig: PhysicsConfig) {
+    const { mass, inertia } = physicsConfig;
+    if (mass === undefined && !inertia) return null;
+
+    const fromShape = shape.GetMassProperties();
+    const massProperties = new this.jolt.MassProperties();
+    massProperties.mMass = fromShape.mMass;
+    massProperties.mInertia = fromShape.mInertia;
+
+    // Scaling to the new mass scales the shape's inertia along with it
+    if (mass !== undefined) massProperties.ScaleToMass(mass);
+    if (inertia) {
+      massProperties.mInertia = new this.jolt.Mat44().sScaleVec3(
+        this.unwrapVec3(new this.THREE.Vector3().fromArray(inertia))
+      );
+    }
+    return massProperties;
+  }
 
-    switch (shape.type) {
-      case "box":
-        scaledShape.width = (shape.width || 1) * scale.x;
-        scaledShape.height = (shape.height || 1) * scale.y;
-        scaledShape.depth = (shape.depth || 1) * scale.z;
-        break;
-      case "sphere":
-        // For sphere, use the maximum scale value to maintain shape
-        scaledShape.radius =
-          (shape.radius || 1) * Math.max(scale.x, scale.y, scale.z);
-        break;
+  /**
+   * Diagonal of a body's inertia tensor in its local frame. Jolt stores it
+   * about principal axes, which may be reordered or rotated.
+   */
+  private getBodyInertia(motion): Vec3Tuple {
+    const principal = this.wrapVec3(motion.GetInverseInertiaDiagonal())
+      .toArray()
+      .map((i) => (i > 0 ? 1 / i : 0));
+    const r = new this.THREE.Matrix4().makeRotationFromQuaternion(
+      this.wrapQuat(motion.GetInertiaRotation())
+    ).elements;
+    // (R D R^T)[j][j] = sum over k of R[j][k]^2 * D[k]
+    return [0, 1, 2].map((j) =>
+      principal.reduce((sum, d, k) => sum + r[k * 4 + j] ** 2 * d, 0)
+    ) as Vec3Tuple;
+  }
+
+  private getAllowedDOFs(allowedDOFs: SixDOFAxis[] | "plane2D"): number {
+    if (allowedDOFs === "plane2D") return this.jolt.EAllowedDOFs_Plane2D;
+    return allowedDOFs.reduce(
+      (mask, axis) =>
+        mask |
+        this.jolt[`EAllowedDOFs_${axis[0].toUpperCase()}${axis.slice(1)}`],
+      0
+    );
+  }
+
+  createJoltShape(
+    config,
+    mesh,
+    physicsConfig: PhysicsConfig = {},
+    scale = mesh.scale
+  ) {
+    const collider = physicsConfig.collider || "auto";
+    const isStatic = physicsConfig.motionType === "static";
+
+    if (config.shape?.type === "heightfield" && collider === "auto") {
+      if (!isStatic) {
+        // Jolt height fields can only be static
+        console.warn(
+          `Heightfield ${config.name} requires a static body, using convex hull`
+        );
+        return this.createConvexHullShape(mesh, scale);
+      }
+      return this.createHeightFieldShape(config.shape, scale);
+    }
+
+    switch (collider) {
+      case "box":
+        return this.createBoundingBoxShape(mesh, scale);
+      case "convexHull":
+        return this.createConvexHullShape(mesh, scale);
+      case "mesh":
+        if (!isStatic) {
+          // Jolt only supports triangle meshes on static bodies
+          console.warn(
+            `Mesh collider on ${config.name} requires a static body, using convex hull`
+          );
+          return this.createConvexHullShape(mesh, scale);
+        }
+        return this.createTriangleMeshShape(mesh, scale);
+    }
+
+    // Get scaled shape dimensions
+    const scaledShape = this.getScaledShapeDimensions(config, mesh, scale);
+    if (!scaledShape) return this.createBoundingBoxShape(mesh, scale);
+
+    switch (scaledShape.type) {
+      case "box":
+        return new this.jolt.BoxShape(
+          new this.jolt.Vec3(
+            scaledShape.width / 2,
+            scaledShape.height / 2,
+            scaledShape.depth / 2
+          ),
+          0.05,
+          null
+        );
+
+      case "sphere":
+        return new this.jolt.SphereShape(scaledShape.radius);
+
+      case "plane":
+        // Use a thin box for plane
+        return new this.jolt.BoxShape(
+          new this.jolt.Vec3(
+            scaledShape.width / 2,
+            0.01,
+            scaledShape.height / 2
+          ),
+          0.01,
+          null
+        );
+
+      case "cylinder":
+        if (scaledShape.radiusTop === scaledShape.radiusBottom) {
+          return new this.jolt.CylinderShape(
+            scaledShape.height / 2,
+            scaledShape.radiusTop,
+            Math.min(0.05, scaledShape.radiusTop, scaledShape.height / 2)
+          );
+        }
+        return this.createTaperedCylinderShape(
+          scaledShape.height / 2,
+          scaledShape.radiusTop,
+          scaledShape.radiusBottom
+        );
+
+      case "cone":
+        return this.createTaperedCylinderShape(
+          scaledShape.height / 2,
+          0,
+          scaledShape.radius
+        );
+
+      case "torus":
+        return this.createTorusShape(scaledShape.radius, scaledShape.tube);
+
+      case "capsule":
+        return new this.jolt.CapsuleShape(
+          scaledShape.height / 2,
+          scaledShape.radius
+        );
+
+      case "dodecahedron":
+      case "icosahedron":
+      case "octahedron":
+      case "tetrahedron":
+      case "torusknot":
+      case "circle":
+      case "ring":
+        return this.createConvexHullShape(mesh, scale);
+
+      default:
+        return this.createBoundingBoxShape(mesh, scale);
+    }
+  }
+
+  private hasChildObjects(obj): boolean {
+    return obj.children.some((child) =>
+      this.objects.some((o) => o.threeObj === child)
+    );
+  }
+
+  /**
+   * One compound shape for an object and every mesh beneath it, with each
+   * part placed at its transform relative to the object
+   */
+  private createCompoundShape(item, physicsConfig: PhysicsConfig = {}) {
+    const root = item.threeObj;
+    root.updateMatrixWorld(true);
+    const rootInverse = root.matrixWorld.clone().invert();
+
+    const settings =
+      physicsConfig.compound === "mutable"
+        ? new this.jolt.MutableCompoundShapeSettings()
+        : new this.jolt.StaticCompoundShapeSettings();
+
+    let parts = 0;
+    root.traverse((obj) => {
+      if (!obj.isMesh) return;
+      const entry = this.objects.find((o) => o.threeObj === obj);
+      if (!entry) return;
+
+      const position = new this.THREE.Vector3();
+      const quaternion = new this.THREE.Quaternion();
+      const scale = new this.THREE.Vector3();
+      new this.THREE.Matrix4()
+        .multiplyMatrices(rootInverse, obj.matrixWorld)
+        .decompose(position, quaternion, scale);
+
+      // Parts keep their own collider choice but share the body's motion type
+      const shape = this.createJoltShape(
+        entry.config,
+        obj,
+        {
+          collider: entry.config.physics?.collider,
+          motionType: physicsConfig.motionType,
+        },
+        scale
+      );
+      if (!shape) return;
+      settings.AddShapeShape(
+        this.unwrapVec3(position),
+        this.unwrapQuat(quaternion),
+        shape,
+        parts++
+      );
+    });
+
+    if (parts === 0) {
+      this.jolt.destroy(settings);
+      return null;
+    }
+    return this.createShapeFromSettings(settings);
+  }
+
+  private createShapeFromSettings(settings) {
+    const result = settings.Create();
+    if (result.HasError()) {
+      const error = result.GetError().c_str();
+      this.jolt.destroy(settings);
+      throw new Error(`Failed to create shape: ${error}`);
+    }
+    const shape = result.Get();
+    shape.AddRef();
+    this.jolt.destroy(settings);
+    return shape;
+  }
+
+  private createTaperedCylinderShape(halfHeight, topRadius, bottomRadius) {
+    const settings = new this.jolt.TaperedCylinderShapeSettings(
+      halfHeight,
+      topRadius,
+      bottomRadius,
+      // Convex radius may not exceed the smaller radius (0 for a cone tip)
+      Math.min(0.05, topRadius, bottomRadius, halfHeight)
+    );
+    return this.createShapeFromSettings(settings);
+  }
+
+  /**
+   * Approximate a torus (ring in the local XY plane) with a ring of capsules
+   */
+  private createTorusShape(radius, tube, segments = 16) {
+    const settings = new this.jolt.StaticCompoundShapeSettings();
+    const halfHeight = radius * Math.sin(Math.PI / segments);
+    const axis = new this.THREE.Vector3(0, 0, 1);
+
+    for (let i = 0; i < segments; i++) {
+      const angle = ((i + 0.5) / segments) * Math.PI * 2;
+      // Rotating the capsule's Y axis about Z by `angle` makes it tangent to the ring
+      const q = new this.THREE.Quaternion().setFromAxisAngle(axis, angle);
+      settings.AddShape(
+        new this.jolt.Vec3(
+          radius * Math.cos(angle),
+          radius * Math.sin(angle),
+          0
+        ),
+        this.unwrapQuat(q),
+        new this.jolt.CapsuleShapeSettings(halfHeight, tube),
+        0
+      );
+    }
+    return this.createShapeFromSettings(settings);
+  }
+
+  private createHeightFieldShape(shape, scale) {
+    const { sampleCount, heights } = getHeightfieldSamples(shape);
+    const width = (shape.width || 10) * scale.x;
+    const depth = (shape.depth || 10) * scale.z;
+
+    const settings = new this.jolt.HeightFieldShapeSettings();
+    settings.mSampleCount = sampleCount;
+    settings.mOffset = new this.jolt.Vec3(-width / 2, 0, -depth / 2);
+    settings.mScale = new this.jolt.Vec3(
+      width / (sampleCount - 1),
+      scale.y,
+      depth / (sampleCount - 1)
+    );
+    settings.mHeightSamples.reserve(heights.length);
+    heights.forEach((h) => settings.mHeightSamples.push_back(h));
+    return this.createShapeFromSettings(settings);
+  }
+
+  /**
+   * Scaled local-space vertices of a mesh's geometry
+   */
+  private getScaledVertices(mesh, scale = mesh.scale): any[] {
+    const position = mesh.geometry?.attributes?.position;
+    if (!position) return [];
+
+    const vertices = [];
+    for (let i = 0; i < position.count; i++) {
+      vertices.push(
+        new this.THREE.Vector3()
+          .fromBufferAttribute(position, i)
+          .multiply(scale)
+      );
+    }
+    return vertices;
+  }
+
+  private createConvexHullShape(mesh, scale = mesh.scale) {
+    const vertices = this.getScaledVertices(mesh, scale);
+    if (vertices.length < 4) return this.createBoundingBoxShape(mesh, scale);
+
+    // Flat geometry (circle, ring) gets a little thickness so the hull isn't degenerate
+    const box = new this.THREE.Box3().setFromPoints(vertices);
+    const size = box.getSize(new this.THREE.Vector3());
+    const thin = ["x", "y", "z"].filter((axis) => size[axis] < 0.001);
+
+    const settings = new this.jolt.ConvexHullShapeSettings();
+    vertices.forEach((v) => {
+      if (thin.length === 0) {
+        settings.mPoints.push_back(this.unwrapVec3(v));
+        return;
+      }
+      thin.forEach((axis) => {
+        [-0.01, 0.01].forEach((offset) => {
+          const p = v.clone();
+          p[axis] += offset;
+          settings.mPoints.push_back(this.unwrapVec3(p));
+        });
+      });
+    });
+    settings.mMaxConvexRadius = Math.min(
+      0.05,
+      ...["x", "y", "z"].map((axis) => Math.max(size[axis], 0.02) / 4)
+    );
+    return this.createShapeFromSettings(settings);
+  }
+
+  private createTriangleMeshShape(mesh, scale = mesh.scale) {
+    const geometry = mesh.geometry;
+    const vertices = this.getScaledVertices(mesh, scale);
+    if (vertices.length < 3) return this.createBoundingBoxShape(mesh, scale);
+
+    const vertexList = new this.jolt.VertexList();
+    vertices.forEach((v) =>
+      vertexList.push_back(new this.jolt.Float3(v.x, v.y, v.z))
+    );
+
+    const triangles = new this.jolt.IndexedTriangleList();
+    const index = geometry.index;
+    const count = index ? index.count : vertices.length;
+    for (let i = 0; i + 2 < count; i += 3) {
+      const [a, b, c] = index
+        ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)]
+        : [i, i + 1, i + 2];
+      triangles.push_back(new this.jolt.IndexedTriangle(a, b, c, 0, 0));
+    }
+
+    const settings = new this.jolt.MeshShapeSettings(
+      vertexList,
+      triangles,
+      new this.jolt.PhysicsMaterialList()
+    );
+    settings.Sanitize();
+    return this.createShapeFromSettings(settings);
+  }
+
+  /**
+   * Box around the geometry in local space (unaffected by the object's rotation)
+   */
+  private createBoundingBoxShape(mesh, scale = mesh.scale) {
+    const vertices = this.getScaledVertices(mesh, scale);
+    const box =
+      vertices.length > 0
+        ? new this.THREE.Box3().setFromPoints(vertices)
+        : new this.THREE.Box3().setFromObject(mesh);
+    const size = box.getSize(new this.THREE.Vector3());
+    const center = box.getCenter(new this.THREE.Vector3());
+    const halfExtent = new this.jolt.Vec3(
+      Math.max(size.x / 2, 0.01),
+      Math.max(size.y / 2, 0.01),
+      Math.max(size.z / 2, 0.01)
+    );
+    const boxShape = new this.jolt.BoxShape(halfExtent, 0.01, null);
+
+    if (center.lengthSq() < 1e-8) return boxShape;
+    const settings = new this.jolt.RotatedTranslatedShapeSettings(
+      this.unwrapVec3(center),
+      new this.jolt.Quat(0, 0, 0, 1),
+      new this.jolt.BoxShapeSettings(halfExtent, 0.01)
+    );
+    return this.createShapeFromSettings(settings);
+  }
+
+  getScaledShapeDimensions(config, mesh, scale = mesh.scale) {
+    const shape = config.shape;
+
+    if (!shape) return null;
+
+    const scaledShape = { ...shape };
+
+    switch (shape.type) {
+      case "box":
+        scaledShape.width = (shape.width || 1) * scale.x;
+        scaledShape.height = (shape.height || 1) * scale.y;
+        scaledShape.depth = (shape.depth || 1) * scale.z;
+        break;
+      case "sphere":
+        // For sphere, use the maximum scale value to maintain shape
+        scaledShape.radius =
+          (shape.radius || 1) * Math.max(scale.x, scale.y, scale.z);
+        break;
       case "plane":
         scaledShape.width = (shape.width || 1) * scale.x;
         scaledShape.height = (shape.height || 1) * scale.z; // Assuming Y-up plane
@@ -2516,26 +5845,34 @@ export class IsoCard {
         scaledShape.height = (shape.height || 1) * scale.y;
         break;
       case "torus":
-        scaledShape.radius = (shape.radius || 1) * Math.max(scale.x, scale.z);
+        scaledShape.radius = (shape.radius || 1) * Math.max(scale.x, scale.y);
         scaledShape.tube =
           (shape.tube || 0.4) * Math.max(scale.x, scale.y, scale.z);
         break;
+      case "capsule":
+        scaledShape.radius = (shape.radius || 0.5) * Math.max(scale.x, scale.z);
+        scaledShape.height = (shape.height || 1) * scale.y;
+        break;
     }
 
     return scaledShape;
   }
 
   // Override exportScene to include constraints
-  exportSceneWithConstraints() {
+  exportSceneWithConstraints(): SceneExport {
     const sceneData = this.exportScene();
 
     return {
       scene: sceneData,
+      constraints: this.constraints.map((c) => ({ ...c.config })),
+      layers: JSON.parse(JSON.stringify(this.layers)),
     };
   }
 
   // Load scene with constraints
-  loadSceneWithConstraints(jsonString: string) {
+  loadSceneWithConstraints(jsonString: string, options: SceneLoadOptions = {}) {
+    if (options.strict && !this.acceptScene(jsonString)) return;
+
     let data;
     try {
       data = JSON.parse(jsonString);
@@ -2548,86 +5885,1230 @@ export class IsoCard {
     if (data.scene) {
       // Load scene
       this.interpretJSON(JSON.stringify(data.scene));
+
+      // Constraints are created once both of their bodies exist
+      if (Array.isArray(data.constraints)) {
+        data.constraints.forEach((c) => this.addConstraint(c));
+      }
+
+      Object.entries(data.layers || {}).forEach(([layerId, layer]: any) => {
+        this.setLayerVisibility(layerId, layer.visible);
+        this.updateLayerOpacity(layerId, layer.opacity);
+      });
     } else {
       // Old format, just load scene
       this.interpretJSON(jsonString);
     }
   }
 
-  setActionsPerSecond(aps: number) {
-    this.actionsPerSecond = aps;
+  /**
+   * Apply a diffScenes() patch, e.g. one a server broadcast. Ops that don't fit
+   * the current scene are skipped with a warning and make this return false.
+   */
+  applyPatch(patch: ScenePatch): boolean {
+    if (patch?.version !== 1 || !Array.isArray(patch.ops)) {
+      console.warn("Unsupported scene patch:", patch);
+      return false;
+    }
+    this.recordAction("applyPatch", [patch]);
+
+    const removed = new Set<ObjectId>();
+    patch.ops.forEach((op) => {
+      if (op.op === "remove") removed.add(op.id);
+    });
+
+    let applied = true;
+    const added: SceneObject[] = [];
+    this.recordSuppressed++;
+    try {
+      patch.ops.forEach((op) => {
+        if (!this.applyPatchOp(op, removed, added)) {
+          console.warn("Skipped scene patch op:", op);
+          applied = false;
+        }
+      });
+      // After every add, so compound bodies include children added later
+      this.createAddedBodies(added);
+    } finally {
+      this.recordSuppressed--;
+    }
+    return applied;
   }
 
-  // Add this private function for the periodic actions
-  private applyPeriodicActions() {
-    const time = this.time || 0; // Ensure time is defined
-    this.dynamicObjects.forEach((obj) => {
-      if (obj.userData.body) {
-        const body = obj.userData.body;
-
-        console.log("Body:", body); // This will still show [object Object], but keep for reference
-        console.log("GetPosition:", {
-          x: body.GetPosition().GetX(),
-          y: body.GetPosition().GetY(),
-          z: body.GetPosition().GetZ(),
-        });
-        console.log("GetRotation:", {
-          x: body.GetRotation().GetX(),
-          y: body.GetRotation().GetY(),
-          z: body.GetRotation().GetZ(),
-          w: body.GetRotation().GetW(),
-        });
-        console.log("GetAngularVelocity:", {
-          x: body.GetAngularVelocity().GetX(),
-          y: body.GetAngularVelocity().GetY(),
-          z: body.GetAngularVelocity().GetZ(),
+  private applyPatchOp(
+    op: ScenePatchOp,
+    removed: Set<ObjectId>,
+    added: SceneObject[]
+  ): boolean {
+    // Hand-written scenes without ids are patched by name
+    const find = (ref: string) =>
+      this.getObjectById(ref) ?? this.getObjectByName(ref);
+
+    switch (op.op) {
+      case "add": {
+        const firstAdded = this.objects.length;
+        if (this.addObject(op.entry) === null) return false;
+        added.push(...this.objects.slice(firstAdded));
+        return true;
+      }
+      case "remove": {
+        // Nothing to do once it is gone, e.g. along with its parent
+        const item = find(op.id);
+        if (!item) return true;
+        // Children the patch keeps wait at the root for their new parent
+        this.objects.forEach((o) => {
+          if (o.threeObj.parent === item.threeObj && !removed.has(o.id)) {
+            this.scene.add(o.threeObj);
+          }
         });
+        this.removeObject(item.id);
+        return true;
+      }
+      case "update": {
+        const item = find(op.id);
+        if (!item) return false;
+        const changes: AnyRecord = { ...op.changes };
+        (op.unset || []).forEach((key) => (changes[key] = undefined));
+        this.updateObject(item.id, changes);
+        (op.unset || []).forEach((key) => delete item.config[key]);
+        return true;
+      }
+      case "replace": {
+        const item = find(op.entry.id ?? op.entry.name);
+        return !!item && this.replaceObject(item.id, { ...op.entry });
+      }
+      case "scene":
+        this.applySceneChanges(op.changes);
+        return true;
+      case "layer":
+        this.setLayerVisibility(op.layer, op.visible);
+        this.updateLayerOpacity(op.layer, op.opacity);
+        return true;
+      case "removeLayer":
+        this.removeLayer(op.layer);
+        return true;
+      case "addConstraint":
+        return this.addConstraint(op.config) !== null;
+      case "removeConstraint":
+        return this.removeConstraint(op.name);
+      default:
+        return false;
+    }
+  }
 
-        console.log("Scale:", obj.scale);
+  /**
+   * Validate a scene for a strict load, logging every issue when it fails
+   */
+  private acceptScene(jsonString: string): boolean {
+    const { valid, errors, warnings } = validateScene(jsonString);
+    if (!valid) {
+      console.error(
+        `Scene rejected with ${errors.length} error(s):\n` +
+          [...errors, ...warnings].map(formatSceneIssue).join("\n")
+      );
+    }
+    return valid;
+  }
 
-        console.log("obj.geometry", obj?.geometry?.type);
-      }
-    });
+  /**
+   * Add a constraint between two named objects.
+   * Created immediately if both bodies exist, otherwise once they do.
+   */
+  addConstraint(config: ConstraintConfig): string | null {
+    if (!config || !config.type || !config.bodyA || !config.bodyB) {
+      console.warn("Constraint needs type, bodyA and bodyB:", config);
+      return null;
+    }
+    if (!IsoCard.CONSTRAINT_TYPES.includes(config.type)) {
+      console.warn("Unsupported constraint type:", config.type);
+      return null;
+    }
+
+    const name = config.name || this.generateConstraintName();
+    if (this.getConstraint(name)) {
+      console.warn(`Constraint ${name} already exists`);
+      return null;
+    }
+    // With its generated name, so a replay removes the same constraint
+    this.recordAction("addConstraint", [{ ...config, name }]);
+
+    const entry = { name, config: { ...config, name }, constraint: null };
+    this.constraints.push(entry);
+    this.createPendingConstraints();
+    return name;
   }
 
-  setGravityConfig(config) {
-    this.sceneConfig.gravity = { ...this.sceneConfig.gravity, ...config };
-    this.gravityType = this.sceneConfig.gravity.type || "uniform";
-    if (this.physicsSystem) {
-      if (this.gravityType === "uniform") {
-        this.physicsSystem.SetGravity(
-          new this.jolt.Vec3(
-            ...(this.sceneConfig.gravity.vector || [0, -9.81, 0])
-          )
-        );
-      } else if (this.gravityType === "radial") {
-        this.physicsSystem.SetGravity(new this.jolt.Vec3(0, 0, 0)); // Disable uniform gravity
-        this.gravityStrength = this.sceneConfig.gravity.strength || 1000;
-        // gravityCenter will be set when adding the planet
-      }
+  /**
+   * Counter name not used by any constraint, even after removals
+   */
+  private generateConstraintName(): string {
+    let name: string;
+    do {
+      name = `constraint ${this.constraintNameCounter++}`;
+    } while (this.getConstraint(name));
+    return name;
+  }
+
+  removeConstraint(name: string): boolean {
+    const index = this.constraints.findIndex((c) => c.name === name);
+    if (index === -1) return false;
+    this.recordAction("removeConstraint", [name]);
+
+    const entry = this.constraints[index];
+    if (entry.constraint && this.physicsSystem) {
+      this.physicsSystem.RemoveConstraint(entry.constraint);
     }
-    console.log(`Gravity set to ${this.gravityType}`);
+    this.constraints.splice(index, 1);
+    return true;
   }
 
-  addObjectsToLayer(layerId: string, configs: any[]): number[] {
-    if (!this.layers[layerId]) {
-      this.layers[layerId] = { visible: true, opacity: 1.0 };
+  getConstraint(name: string) {
+    return this.constraints.find((c) => c.name === name);
+  }
+
+  /**
+   * Change the motor target of a hinge, slider or six-DOF constraint.
+   * Angles are in degrees, angular velocities in degrees per second.
+   */
+  setConstraintMotorTarget(name: string, target: number, axis?: SixDOFAxis) {
+    const entry = this.getConstraint(name);
+    if (!entry) return false;
+    this.recordAction("setConstraintMotorTarget", [name, target, axis]);
+
+    const config = entry.config;
+    if (config.type === "sixDOF") {
+      if (!axis || !config.motors?.[axis]) return false;
+      config.motors[axis] = { ...config.motors[axis], target };
+    } else {
+      if (!config.motor) return false;
+      config.motor = { ...config.motor, target };
     }
 
-    const addedObjectIds: number[] = [];
+    if (entry.constraint) {
+      this.applyConstraintMotors(entry);
+      // Sleeping bodies would otherwise ignore the new target
+      this.bodyInterface.ActivateBody(entry.constraint.GetBody1().GetID());
+      this.bodyInterface.ActivateBody(entry.constraint.GetBody2().GetID());
+    }
+    return true;
+  }
 
-    configs.forEach((config) => {
-      // Force the layer in the config
-      const modifiedConfig = { ...config, layer: layerId };
-      var objId = this.addObject(modifiedConfig);
-      //objId = 23098409234;
-      if (objId !== null) {
-        addedObjectIds.push(objId);
+  /**
+   * Create every constraint whose two bodies exist and which isn't created yet
+   */
+  private createPendingConstraints() {
+    if (!this.jolt || !this.physicsSystem) return;
+
+    this.constraints.forEach((entry) => {
+      if (entry.constraint) return;
+      const bodyA = this.getBodyByName(entry.config.bodyA);
+      const bodyB = this.getBodyByName(entry.config.bodyB);
+      if (!bodyA || !bodyB) return;
+
+      try {
+        const settings = this.createConstraintSettings(
+          entry.config,
+          bodyA,
+          bodyB
+        );
+        const constraint = settings.Create(bodyA, bodyB);
+        this.jolt.destroy(settings);
+        entry.constraint = this.jolt.castObject(
+          constraint,
+          this.getConstraintClass(entry.config.type)
+        );
+        if (entry.config.enabled === false) entry.constraint.SetEnabled(false);
+        this.physicsSystem.AddConstraint(entry.constraint);
+        this.applyConstraintMotors(entry);
+        this.bodyInterface.ActivateBody(bodyA.GetID());
+        this.bodyInterface.ActivateBody(bodyB.GetID());
+      } catch (error) {
+        console.error(`Error creating constraint ${entry.name}:`, error);
       }
     });
+  }
 
-    console.log(`Added ${addedObjectIds.length} objects to layer ${layerId}`);
-    return addedObjectIds;
+  /**
+   * Remove the Jolt constraints attached to an object so its body can be rebuilt.
+   * The configs stay and are recreated by createPendingConstraints().
+   */
+  private detachConstraints(item) {
+    this.constraints.forEach((entry) => {
+      if (
+        entry.constraint &&
+        (this.refersTo(entry.config.bodyA, item) ||
+          this.refersTo(entry.config.bodyB, item))
+      ) {
+        if (this.physicsSystem) {
+          this.physicsSystem.RemoveConstraint(entry.constraint);
+        }
+        entry.constraint = null;
+      }
+    });
+  }
+
+  private getBodyByName(name: any) {
+    return this.findObjectByRef(name)?.threeObj.userData.body ?? null;
+  }
+
+  /**
+   * Scene JSON refers to objects by name; ids work too
+   */
+  private findObjectByRef(ref: any): SceneObject | undefined {
+    return this.getObjectByName(ref) ?? this.getObjectById(ref);
+  }
+
+  private refersTo(ref: any, item: SceneObject): boolean {
+    return ref === item.config.name || ref === item.id;
+  }
+
+  private getConstraintClass(type: ConstraintConfig["type"]) {
+    switch (type) {
+      case "fixed":
+        return this.jolt.TwoBodyConstraint;
+      case "point":
+        return this.jolt.PointConstraint;
+      case "hinge":
+        return this.jolt.HingeConstraint;
+      case "slider":
+        return this.jolt.SliderConstraint;
+      case "distance":
+        return this.jolt.DistanceConstraint;
+      case "cone":
+        return this.jolt.ConeConstraint;
+      case "sixDOF":
+        return this.jolt.SixDOFConstraint;
+    }
+  }
+
+  private createConstraintSettings(config: ConstraintConfig, bodyA, bodyB) {
+    const posA = this.wrapVec3(bodyA.GetPosition());
+    const posB = this.wrapVec3(bodyB.GetPosition());
+
+    // Anchor defaults to the midpoint between the two bodies (world space)
+    const mid = posA.clone().add(posB).multiplyScalar(0.5);
+    const point = config.point ? new this.THREE.Vector3(...config.point) : mid;
+    const pointA = config.pointA
+      ? new this.THREE.Vector3(...config.pointA)
+      : point;
+    const pointB = config.pointB
+      ? new this.THREE.Vector3(...config.pointB)
+      : point;
+
+    const axis = new this.THREE.Vector3(
+      ...(config.axis || [0, 1, 0])
+    ).normalize();
+    const normal = config.normal
+      ? new this.THREE.Vector3(...config.normal).normalize()
+      : this.getPerpendicular(axis);
+
+    let settings;
+    switch (config.type) {
+      case "fixed":
+        settings = new this.jolt.FixedConstraintSettings();
+        if (config.point || config.pointA || config.pointB) {
+          settings.mPoint1 = this.unwrapRVec3(pointA);
+          settings.mPoint2 = this.unwrapRVec3(pointB);
+        } else {
+          settings.mAutoDetectPoint = true;
+        }
+        break;
+
+      case "point":
+        settings = new this.jolt.PointConstraintSettings();
+        settings.mPoint1 = this.unwrapRVec3(pointA);
+        settings.mPoint2 = this.unwrapRVec3(pointB);
+        break;
+
+      case "hinge":
+        settings = new this.jolt.HingeConstraintSettings();
+        settings.mPoint1 = this.unwrapRVec3(pointA);
+        settings.mPoint2 = this.unwrapRVec3(pointB);
+        settings.mHingeAxis1 = settings.mHingeAxis2 = this.unwrapVec3(axis);
+        settings.mNormalAxis1 = settings.mNormalAxis2 = this.unwrapVec3(normal);
+        if (config.limits) {
+          settings.mLimitsMin = this.degreesToRadians(config.limits.min);
+          settings.mLimitsMax = this.degreesToRadians(config.limits.max);
+        }
+        if (config.maxFriction !== undefined) {
+          settings.mMaxFrictionTorque = config.maxFriction;
+        }
+        if (config.spring) {
+          this.applySpringSettings(
+            settings.mLimitsSpringSettings,
+            config.spring
+          );
+        }
+        if (config.motor) {
+          this.applyMotorSettings(settings.mMotorSettings, config.motor);
+        }
+        break;
+
+      case "slider":
+        settings = new this.jolt.SliderConstraintSettings();
+        if (config.point || config.pointA || config.pointB) {
+          settings.mPoint1 = this.unwrapRVec3(pointA);
+          settings.mPoint2 = this.unwrapRVec3(pointB);
+        } else {
+          settings.mAutoDetectPoint = true;
+        }
+        settings.mSliderAxis1 = settings.mSliderAxis2 = this.unwrapVec3(axis);
+        settings.mNormalAxis1 = settings.mNormalAxis2 = this.unwrapVec3(normal);
+        if (config.limits) {
+          settings.mLimitsMin = config.limits.min;
+          settings.mLimitsMax = config.limits.max;
+        }
+        if (config.maxFriction !== undefined) {
+          settings.mMaxFrictionForce = config.maxFriction;
+        }
+        if (config.spring) {
+          this.applySpringSettings(
+            settings.mLimitsSpringSettings,
+            config.spring
+          );
+        }
+        if (config.motor) {
+          this.applyMotorSettings(settings.mMotorSettings, config.motor);
+        }
+        break;
+
+      case "distance":
+        settings = new this.jolt.DistanceConstraintSettings();
+        // Distance constraints attach at each body's own anchor
+        settings.mPoint1 = this.unwrapRVec3(config.pointA ? pointA : posA);
+        settings.mPoint2 = this.unwrapRVec3(config.pointB ? pointB : posB);
+        if (config.minDistance !== undefined) {
+          settings.mMinDistance = config.minDistance;
+        }
+        if (config.maxDistance !== undefined) {
+          settings.mMaxDistance = config.maxDistance;
+        }
+        if (config.spring) {
+          this.applySpringSettings(
+            settings.mLimitsSpringSettings,
+            config.spring
+          );
+        }
+        break;
+
+      case "cone":
+        settings = new this.jolt.ConeConstraintSettings();
+        settings.mPoint1 = this.unwrapRVec3(pointA);
+        settings.mPoint2 = this.unwrapRVec3(pointB);
+        settings.mTwistAxis1 = settings.mTwistAxis2 = this.unwrapVec3(axis);
+        settings.mHalfConeAngle = this.degreesToRadians(
+          config.halfConeAngle ?? 45
+        );
+        break;
+
+      case "sixDOF": {
+        settings = new this.jolt.SixDOFConstraintSettings();
+        settings.mPosition1 = this.unwrapRVec3(pointA);
+        settings.mPosition2 = this.unwrapRVec3(pointB);
+        // axis is the constraint X axis, normal its Y axis
+        settings.mAxisX1 = settings.mAxisX2 = this.unwrapVec3(axis);
+        settings.mAxisY1 = settings.mAxisY2 = this.unwrapVec3(normal);
+
+        Object.entries(config.axes || {}).forEach(([axisName, value]) => {
+          const joltAxis = this.getSixDOFAxis(axisName as SixDOFAxis);
+          if (joltAxis === undefined) return;
+          const isRotation = axisName.startsWith("rotation");
+          if (value === "free") {
+            settings.MakeFreeAxis(joltAxis);
+          } else if (value === "fixed") {
+            settings.MakeFixedAxis(joltAxis);
+          } else if (Array.isArray(value)) {
+            const [min, max] = isRotation
+              ? value.map((deg) => this.degreesToRadians(deg))
+              : value;
+            settings.SetLimitedAxis(joltAxis, min, max);
+          }
+        });
+
+        Object.entries(config.springs || {}).forEach(([axisName, spring]) => {
+          const joltAxis = this.getSixDOFAxis(axisName as SixDOFAxis);
+          if (joltAxis === undefined) return;
+          this.applySpringSettings(
+            settings.get_mLimitsSpringSettings(joltAxis),
+            spring
+          );
+        });
+
+        Object.entries(config.motors || {}).forEach(([axisName, motor]) => {
+          const joltAxis = this.getSixDOFAxis(axisName as SixDOFAxis);
+          if (joltAxis === undefined) return;
+          this.applyMotorSettings(settings.get_mMotorSettings(joltAxis), motor);
+        });
+        break;
+      }
+    }
+
+    settings.mSpace = this.jolt.EConstraintSpace_WorldSpace;
+    return settings;
+  }
+
+  private applySpringSettings(spring, config: SpringConfig) {
+    if (config.stiffness !== undefined) {
+      spring.mMode = this.jolt.ESpringMode_StiffnessAndDamping;
+      spring.mStiffness = config.stiffness;
+    } else {
+      spring.mMode = this.jolt.ESpringMode_FrequencyAndDamping;
+      spring.mFrequency = config.frequency ?? 0;
+    }
+    spring.mDamping = config.damping ?? 0;
+  }
+
+  private applyMotorSettings(motor, config: MotorConfig) {
+    if (config.frequency !== undefined || config.stiffness !== undefined) {
+      this.applySpringSettings(motor.mSpringSettings, config);
+    }
+    if (config.maxForce !== undefined) {
+      motor.mMinForceLimit = -config.maxForce;
+      motor.mMaxForceLimit = config.maxForce;
+    }
+    if (config.maxTorque !== undefined) {
+      motor.mMinTorqueLimit = -config.maxTorque;
+      motor.mMaxTorqueLimit = config.maxTorque;
+    }
+  }
+
+  /**
+   * Push the motor state and target from the config onto a created constraint
+   */
+  private applyConstraintMotors(entry) {
+    const { config, constraint } = entry;
+
+    if (config.type === "hinge" || config.type === "slider") {
+      if (!config.motor) return;
+      const state = this.getMotorState(config.motor.state);
+      const target = config.motor.target ?? 0;
+      constraint.SetMotorState(state);
+      if (config.type === "hinge") {
+        if (state === this.jolt.EMotorState_Velocity) {
+          constraint.SetTargetAngularVelocity(this.degreesToRadians(target));
+        } else if (state === this.jolt.EMotorState_Position) {
+          constraint.SetTargetAngle(this.degreesToRadians(target));
+        }
+      } else {
+        if (state === this.jolt.EMotorState_Velocity) {
+          constraint.SetTargetVelocity(target);
+        } else if (state === this.jolt.EMotorState_Position) {
+          constraint.SetTargetPosition(target);
+        }
+      }
+    } else if (config.type === "sixDOF") {
+      if (!config.motors) return;
+      const velocity: Vec3Tuple = [0, 0, 0];
+      const angularVelocity: Vec3Tuple = [0, 0, 0];
+      const position: Vec3Tuple = [0, 0, 0];
+      const orientation = [0, 0, 0];
+
+      IsoCard.SIX_DOF_AXES.forEach((axisName, i) => {
+        const motor = config.motors[axisName];
+        if (!motor) return;
+        const state = this.getMotorState(motor.state);
+        const target = motor.target ?? 0;
+        constraint.SetMotorState(this.getSixDOFAxis(axisName), state);
+        if (i < 3) {
+          if (state === this.jolt.EMotorState_Velocity) velocity[i] = target;
+          else position[i] = target;
+        } else {
+          const rad = this.degreesToRadians(target);
+          if (state === this.jolt.EMotorState_Velocity)
+            angularVelocity[i - 3] = rad;
+          else orientation[i - 3] = rad;
+        }
+      });
+
+      constraint.SetTargetVelocityCS(this.scratchVec3(velocity));
+      constraint.SetTargetAngularVelocityCS(this.scratchVec3(angularVelocity));
+      constraint.SetTargetPositionCS(this.scratchVec3(position));
+      const q = new this.THREE.Quaternion().setFromEuler(
+        new this.THREE.Euler(...orientation)
+      );
+      constraint.SetTargetOrientationCS(this.unwrapQuat(q));
+    }
+  }
+
+  private getMotorState(state: MotorConfig["state"]) {
+    switch (state) {
+      case "velocity":
+        return this.jolt.EMotorState_Velocity;
+      case "position":
+        return this.jolt.EMotorState_Position;
+      default:
+        return this.jolt.EMotorState_Off;
+    }
+  }
+
+  private getSixDOFAxis(axis: SixDOFAxis) {
+    switch (axis) {
+      case "translationX":
+        return this.jolt.SixDOFConstraintSettings_EAxis_TranslationX;
+      case "translationY":
+        return this.jolt.SixDOFConstraintSettings_EAxis_TranslationY;
+      case "translationZ":
+        return this.jolt.SixDOFConstraintSettings_EAxis_TranslationZ;
+      case "rotationX":
+        return this.jolt.SixDOFConstraintSettings_EAxis_RotationX;
+      case "rotationY":
+        return this.jolt.SixDOFConstraintSettings_EAxis_RotationY;
+      case "rotationZ":
+        return this.jolt.SixDOFConstraintSettings_EAxis_RotationZ;
+      default:
+        console.warn("Unsupported six-DOF axis:", axis);
+        return undefined;
+    }
+  }
+
+  private getPerpendicular(v: any): any {
+    const ref =
+      Math.abs(v.y) < 0.9
+        ? new this.THREE.Vector3(0, 1, 0)
+        : new this.THREE.Vector3(1, 0, 0);
+    return new this.THREE.Vector3().crossVectors(v, ref).normalize();
+  }
+
+  setActionsPerSecond(aps: number) {
+    this.actionsPerSecond = aps;
+  }
+
+  /**
+   * Make a controller type available to scene JSON (`controller: "type"` or
+   * `controller: { type, ...params }`). Objects already referencing it are attached.
+   */
+  registerControllerType(type: string, factory: ControllerFactory) {
+    this.controllerTypes.set(type, factory);
+    this.objects.forEach((obj) => {
+      if (!this.controllers.has(obj.id)) this.attachConfigController(obj);
+    });
+  }
+
+  /**
+   * Attach a controller to an object. It is called at actionsPerSecond with an
+   * observation of the object and its returned action is applied before the next step.
+   */
+  registerController(id: ObjectId, controller: Controller) {
+    if (!this.getObjectById(id)) {
+      console.warn(`Cannot register controller, object ${id} not found`);
+      return false;
+    }
+    this.controllers.set(id, { controller, action: null });
+    return true;
+  }
+
+  unregisterController(id: ObjectId) {
+    return this.controllers.delete(id);
+  }
+
+  getController(id: ObjectId): Controller | undefined {
+    return this.controllers.get(id)?.controller;
+  }
+
+  /**
+   * Turn controller evaluation on or off (replays apply recorded actions instead)
+   */
+  setControllersEnabled(enabled: boolean) {
+    this.controllersEnabled = enabled;
+  }
+
+  /**
+   * Structured observation passed to controllers
+   */
+  getObservation(id: ObjectId): ControllerObservation | null {
+    const item = this.getObjectById(id);
+    if (!item) return null;
+
+    const obj = item.threeObj;
+    const body = obj.userData.body;
+    const state = body ? this.readBodyState(body) : null;
+    return {
+      id,
+      tick: this.tick,
+      time: this.time,
+      position: state ? state.position : obj.position.toArray(),
+      rotation: state ? state.rotation : obj.quaternion.toArray(),
+      linearVelocity: state ? state.linearVelocity : [0, 0, 0],
+      angularVelocity: state ? state.angularVelocity : [0, 0, 0],
+      sleeping: state ? state.sleeping : true,
+    };
+  }
+
+  /**
+   * Apply an action to an object. Forces and torques are held and re-applied
+   * every step until the next action; velocities and motor targets apply once.
+   */
+  applyControllerAction(id: ObjectId, action: ControllerAction) {
+    const item = this.getObjectById(id);
+    if (!item) return false;
+    this.recordAction("applyControllerAction", [id, action]);
+
+    const entry = this.controllers.get(id);
+    if (entry) {
+      entry.action = action;
+    } else {
+      this.heldActions.set(id, action);
+    }
+
+    const body = item.threeObj.userData.body;
+    if (body && this.bodyInterface) {
+      const bodyId = body.GetID();
+      if (action.impulse) {
+        this.bodyInterface.AddImpulse(bodyId, this.scratchVec3(action.impulse));
+      }
+      if (action.angularImpulse) {
+        this.bodyInterface.AddAngularImpulse(
+          bodyId,
+          this.scratchVec3(action.angularImpulse)
+        );
+      }
+      if (action.linearVelocity) {
+        this.bodyInterface.SetLinearVelocity(
+          bodyId,
+          this.scratchVec3(action.linearVelocity)
+        );
+      }
+      if (action.angularVelocity) {
+        this.bodyInterface.SetAngularVelocity(
+          bodyId,
+          this.scratchVec3(action.angularVelocity)
+        );
+      }
+      this.bodyInterface.ActivateBody(bodyId);
+    }
+
+    if (action.motorTargets) {
+      // Already recorded as part of this action
+      this.recordSuppressed++;
+      try {
+        Object.entries(action.motorTargets).forEach(([name, target]) => {
+          if (typeof target === "number") {
+            this.setConstraintMotorTarget(name, target);
+          } else {
+            Object.entries(target).forEach(([axis, value]) =>
+              this.setConstraintMotorTarget(name, value, axis as SixDOFAxis)
+            );
+          }
+        });
+      } finally {
+        this.recordSuppressed--;
+      }
+    }
+    return true;
+  }
+
+  private attachConfigController(obj) {
+    const ref = obj.config.controller;
+    if (!ref) return;
+
+    const { type, ...params } = typeof ref === "string" ? { type: ref } : ref;
+    const factory = this.controllerTypes.get(type);
+    if (!factory) return;
+    this.controllers.set(obj.id, { controller: factory(params), action: null });
+  }
+
+  /**
+   * Ask every controller for a new action
+   */
+  private runControllers() {
+    if (!this.controllersEnabled) return;
+
+    this.controllers.forEach((entry, id) => {
+      const observation = this.getObservation(id);
+      if (!observation) return;
+      try {
+        const action = entry.controller(observation, this);
+        if (action) this.applyControllerAction(id, action);
+      } catch (error) {
+        console.error(`Controller for ${id} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Re-apply held forces and torques; Jolt clears them after every step
+   */
+  private applyHeldActions() {
+    const apply = (id, action: ControllerAction | null) => {
+      if (!action || (!action.force && !action.torque)) return;
+      const body = this.getObjectById(id)?.threeObj.userData.body;
+      if (!body) return;
+      const bodyId = body.GetID();
+      if (action.force) {
+        this.bodyInterface.AddForce(
+          bodyId,
+          this.scratchVec3(action.force),
+          this.jolt.EActivation_Activate
+        );
+      }
+      if (action.torque) {
+        this.bodyInterface.AddTorque(
+          bodyId,
+          this.scratchVec3(action.torque),
+          this.jolt.EActivation_Activate
+        );
+      }
+    };
+    this.controllers.forEach((entry, id) => apply(id, entry.action));
+    this.heldActions.forEach((action, id) => apply(id, action));
+  }
+
+  private readBodyState(body): BodyState {
+    const pos = body.GetPosition();
+    const rot = body.GetRotation();
+    const lin = body.GetLinearVelocity();
+    const ang = body.GetAngularVelocity();
+    return {
+      position: [pos.GetX(), pos.GetY(), pos.GetZ()] as Vec3Tuple,
+      rotation: [rot.GetX(), rot.GetY(), rot.GetZ(), rot.GetW()] as QuatTuple,
+      linearVelocity: [lin.GetX(), lin.GetY(), lin.GetZ()] as Vec3Tuple,
+      angularVelocity: [ang.GetX(), ang.GetY(), ang.GetZ()] as Vec3Tuple,
+      sleeping: !body.IsActive(),
+    };
+  }
+
+  /**
+   * Call cb for every new contact between two bodies.
+   * Returns a function that unsubscribes.
+   */
+  onCollisionEnter(cb: CollisionCallback): () => void {
+    this.collisionCallbacks.enter.add(cb);
+    return () => this.collisionCallbacks.enter.delete(cb);
+  }
+
+  /**
+   * Call cb once per step for every pair of bodies still in contact
+   */
+  onCollisionStay(cb: CollisionCallback): () => void {
+    this.collisionCallbacks.stay.add(cb);
+    return () => this.collisionCallbacks.stay.delete(cb);
+  }
+
+  /**
+   * Call cb when two bodies stop touching; contact data is the last seen
+   */
+  onCollisionExit(cb: CollisionCallback): () => void {
+    this.collisionCallbacks.exit.add(cb);
+    return () => this.collisionCallbacks.exit.delete(cb);
+  }
+
+  /**
+   * Call cb for every collision event involving one object. Events are
+   * oriented so that objectA is always the subscribed object.
+   */
+  onObjectCollision(id: ObjectId, cb: CollisionCallback): () => void {
+    if (!this.objectCollisionCallbacks.has(id)) {
+      this.objectCollisionCallbacks.set(id, new Set());
+    }
+    this.objectCollisionCallbacks.get(id).add(cb);
+    return () => {
+      const callbacks = this.objectCollisionCallbacks.get(id);
+      callbacks?.delete(cb);
+      if (callbacks?.size === 0) this.objectCollisionCallbacks.delete(id);
+    };
+  }
+
+  /**
+   * Call cb when an object starts overlapping a sensor
+   */
+  onTriggerEnter(cb: TriggerCallback): () => void {
+    this.triggerCallbacks.enter.add(cb);
+    return () => this.triggerCallbacks.enter.delete(cb);
+  }
+
+  /**
+   * Call cb when an object stops overlapping a sensor
+   */
+  onTriggerExit(cb: TriggerCallback): () => void {
+    this.triggerCallbacks.exit.add(cb);
+    return () => this.triggerCallbacks.exit.delete(cb);
+  }
+
+  /**
+   * Ids of the objects currently inside a sensor
+   */
+  getObjectsInTrigger(id: ObjectId): ObjectId[] {
+    const inside = [];
+    this.activeContacts.forEach((pair) => {
+      if (pair.trigger && pair.trigger.sensorId === id) {
+        inside.push(pair.trigger.otherId);
+      }
+    });
+    return inside;
+  }
+
+  /**
+   * Collision events produced by the most recent step
+   */
+  getCollisionEvents(): CollisionEvent[] {
+    return this.collisionEvents;
+  }
+
+  /**
+   * Jolt reports contacts from inside Step(); they are only buffered here
+   * and handed out once the step has finished.
+   */
+  private installContactListener() {
+    const jolt = this.jolt;
+    const listener = new jolt.ContactListenerJS();
+
+    listener.OnContactValidate = () =>
+      jolt.ValidateResult_AcceptAllContactsForThisBodyPair;
+
+    listener.OnContactAdded = (body1Ptr, body2Ptr, manifoldPtr) => {
+      const body1 = jolt.wrapPointer(body1Ptr, jolt.Body);
+      const body2 = jolt.wrapPointer(body2Ptr, jolt.Body);
+      const manifold = jolt.wrapPointer(manifoldPtr, jolt.ContactManifold);
+      const key = this.getContactKey(body1.GetID(), body2.GetID());
+      const contact = this.readContact(body1, body2, manifold);
+
+      let pair = this.activeContacts.get(key);
+      if (!pair) {
+        const objectA = this.getObjectIdForBody(body1);
+        const objectB = this.getObjectIdForBody(body2);
+        pair = {
+          objectA,
+          objectB,
+          bodies: [body1, body2],
+          subShapes: new Set(),
+          contact,
+          enteredTick: this.tick,
+          asleep: false,
+          trigger: body1.IsSensor()
+            ? { sensorId: objectA, otherId: objectB }
+            : body2.IsSensor()
+            ? { sensorId: objectB, otherId: objectA }
+            : null,
+        };
+        this.activeContacts.set(key, pair);
+        this.queueContactEvent("enter", pair);
+      }
+      pair.subShapes.add(
+        `${manifold.mSubShapeID1.GetValue()}:${manifold.mSubShapeID2.GetValue()}`
+      );
+      pair.contact = contact;
+      pair.asleep = false;
+    };
+
+    listener.OnContactPersisted = (body1Ptr, body2Ptr, manifoldPtr) => {
+      const body1 = jolt.wrapPointer(body1Ptr, jolt.Body);
+      const body2 = jolt.wrapPointer(body2Ptr, jolt.Body);
+      const manifold = jolt.wrapPointer(manifoldPtr, jolt.ContactManifold);
+      const pair = this.activeContacts.get(
+        this.getContactKey(body1.GetID(), body2.GetID())
+      );
+      if (!pair) return;
+      pair.contact = this.readContact(body1, body2, manifold);
+      pair.asleep = false;
+    };
+
+    listener.OnContactRemoved = (subShapePairPtr) => {
+      const subShapePair = jolt.wrapPointer(
+        subShapePairPtr,
+        jolt.SubShapeIDPair
+      );
+      const key = this.getContactKey(
+        subShapePair.GetBody1ID(),
+        subShapePair.GetBody2ID()
+      );
+      const pair = this.activeContacts.get(key);
+      if (!pair) return;
+
+      // Jolt also drops the contacts of bodies that fall asleep; they still touch
+      const bodies = this.physicsSystem.GetBodyInterfaceNoLock();
+      const ids = [subShapePair.GetBody1ID(), subShapePair.GetBody2ID()];
+      if (ids.every((id) => bodies.IsAdded(id) && !bodies.IsActive(id))) {
+        pair.asleep = true;
+        return;
+      }
+
+      pair.subShapes.delete(
+        `${subShapePair.GetSubShapeID1().GetValue()}:${subShapePair
+          .GetSubShapeID2()
+          .GetValue()}`
+      );
+      if (pair.subShapes.size === 0) {
+        this.activeContacts.delete(key);
+        this.queueContactEvent("exit", pair);
+      }
+    };
+
+    this.physicsSystem.SetContactListener(listener);
+    this.contactListener = listener;
+  }
+
+  /**
+   * End every contact of a body that is about to leave the world
+   */
+  private dropBodyContacts(bodyID) {
+    const id = `${bodyID.GetIndexAndSequenceNumber()}`;
+    this.activeContacts.forEach((pair, key) => {
+      if (!key.split(":").includes(id)) return;
+      this.activeContacts.delete(key);
+      this.queueContactEvent("exit", pair);
+    });
+  }
+
+  private getContactKey(bodyID1, bodyID2): string {
+    return `${bodyID1.GetIndexAndSequenceNumber()}:${bodyID2.GetIndexAndSequenceNumber()}`;
+  }
+
+  private getObjectIdForBody(body) {
+    const item = this.objects.find((o) => o.threeObj.userData.body === body);
+    return item ? item.id : body.name;
+  }
+
+  private readContact(body1, body2, manifold): ContactData {
+    const count = Math.max(1, manifold.mRelativeContactPointsOn1.size());
+    const point = new this.THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      point.add(this.wrapRVec3(manifold.GetWorldSpaceContactPointOn1(i)));
+    }
+    point.divideScalar(count);
+
+    // v = linear + angular x (point - center of mass), for each body
+    const pointVelocity = (body) =>
+      this.wrapVec3(body.GetLinearVelocity()).add(
+        this.wrapVec3(body.GetAngularVelocity()).cross(
+          point.clone().sub(this.wrapRVec3(body.GetCenterOfMassPosition()))
+        )
+      );
+
+    return {
+      point: point.toArray(),
+      normal: this.wrapVec3(manifold.mWorldSpaceNormal).toArray(),
+      penetrationDepth: manifold.mPenetrationDepth,
+      relativeSpeed: pointVelocity(body2).sub(pointVelocity(body1)).length(),
+    };
+  }
+
+  /**
+   * Buffer an enter/exit as a collision event, or a trigger event for sensors
+   */
+  private queueContactEvent(type: "enter" | "exit", pair) {
+    if (pair.trigger) {
+      this.pendingTriggerEvents.push({ type, ...pair.trigger });
+    } else {
+      this.pendingCollisionEvents.push(this.makeCollisionEvent(type, pair));
+    }
+  }
+
+  private makeCollisionEvent(
+    type: CollisionEventType,
+    pair: { objectA: ObjectId; objectB: ObjectId; contact: ContactData }
+  ): CollisionEvent {
+    return {
+      type,
+      objectA: pair.objectA,
+      objectB: pair.objectB,
+      ...pair.contact,
+      tick: this.tick,
+    };
+  }
+
+  /**
+   * Move this step's buffered events into collisionEvents, adding a stay
+   * event for every pair that was already touching before the step
+   */
+  private collectCollisionEvents() {
+    this.activeContacts.forEach((pair, key) => {
+      // Woken up without Jolt reporting the contact again: they separated
+      if (pair.asleep && pair.bodies.some((body) => body.IsActive())) {
+        this.activeContacts.delete(key);
+        this.queueContactEvent("exit", pair);
+      } else if (!pair.trigger && pair.enteredTick !== this.tick) {
+        this.pendingCollisionEvents.push(this.makeCollisionEvent("stay", pair));
+      }
+    });
+    this.collisionEvents = this.pendingCollisionEvents;
+    this.pendingCollisionEvents = [];
+    this.triggerEvents = this.pendingTriggerEvents;
+    this.pendingTriggerEvents = [];
+  }
+
+  private dispatchCollisionEvents() {
+    const notify = (cb: CollisionCallback, event: CollisionEvent) => {
+      try {
+        cb(event);
+      } catch (error) {
+        console.error("Collision callback failed:", error);
+      }
+    };
+
+    this.collisionEvents.forEach((event) => {
+      this.collisionCallbacks[event.type].forEach((cb) => notify(cb, event));
+
+      this.objectCollisionCallbacks
+        .get(event.objectA)
+        ?.forEach((cb) => notify(cb, event));
+
+      const flipped: CollisionEvent = {
+        ...event,
+        objectA: event.objectB,
+        objectB: event.objectA,
+        normal: event.normal.map((n) => -n) as Vec3Tuple,
+      };
+      this.objectCollisionCallbacks
+        .get(event.objectB)
+        ?.forEach((cb) => notify(cb, flipped));
+    });
+
+    this.triggerEvents.forEach(({ type, sensorId, otherId }) => {
+      this.triggerCallbacks[type].forEach((cb) => {
+        try {
+          cb(sensorId, otherId);
+        } catch (error) {
+          console.error("Trigger callback failed:", error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Patched settings replace the current ones; null resets one to its default
+   */
+  private applySceneChanges(changes: Partial<SceneSettingsEntry>) {
+    const { gravity, collisionGroups, ...rest } = changes;
+    if (gravity !== undefined) {
+      this.sceneConfig.gravity = {};
+      this.setGravityConfig(gravity ?? defaultGravity());
+    }
+    if (collisionGroups !== undefined) {
+      this.sceneConfig.collisionGroups = collisionGroups ?? undefined;
+      this.applyCollisionGroups();
+    }
+    this.addObject({ type: "scene", ...rest });
+  }
+
+  setGravityConfig(config: GravityConfig) {
+    this.recordAction("setGravityConfig", [config]);
+    this.sceneConfig.gravity = { ...this.sceneConfig.gravity, ...config };
+    this.gravityType = this.sceneConfig.gravity.type || "uniform";
+    if (this.physicsSystem) {
+      if (this.gravityType === "uniform") {
+        this.physicsSystem.SetGravity(
+          new this.jolt.Vec3(
+            ...(this.sceneConfig.gravity.vector || [0, -9.81, 0])
+          )
+        );
+      } else if (this.gravityType === "radial") {
+        this.physicsSystem.SetGravity(new this.jolt.Vec3(0, 0, 0)); // Disable uniform gravity
+      }
+    }
+    console.log(`Gravity set to ${this.gravityType}`);
+  }
+
+  /**
+   * Declare which collision groups collide with each other; objects join a
+   * group with physics.collisionGroup
+   */
+  setCollisionGroups(groups: CollisionGroupsConfig) {
+    this.recordAction("setCollisionGroups", [groups]);
+    this.sceneConfig.collisionGroups = groups;
+    this.applyCollisionGroups();
+  }
+
+  getCollisionGroups(): CollisionGroupsConfig | undefined {
+    return this.sceneConfig.collisionGroups;
+  }
+
+  /**
+   * Object layer of a body in a collision group; a group used for the first
+   * time gets the next free pair of layers
+   */
+  private getObjectLayer(group: string | undefined, moving: boolean): number {
+    const name = group ?? "default";
+    const isNew = !this.collisionGroupIndex.has(name);
+    const index = this.allocateCollisionGroup(name);
+    if (isNew) this.applyCollisionGroups();
+    return index * 2 + (moving ? 1 : 0);
+  }
+
+  private allocateCollisionGroup(group: string): number {
+    if (this.collisionGroupIndex.has(group)) {
+      return this.collisionGroupIndex.get(group);
+    }
+    if (this.collisionGroupIndex.size >= IsoCard.MAX_COLLISION_GROUPS) {
+      console.warn(
+        `More than ${IsoCard.MAX_COLLISION_GROUPS} collision groups, ${group} collides like "default"`
+      );
+      return 0;
+    }
+    const index = this.collisionGroupIndex.size;
+    this.collisionGroupIndex.set(group, index);
+    return index;
+  }
+
+  /**
+   * Fill the object layer pair table from the scene's collision groups.
+   * Static bodies never collide with each other, whatever their groups.
+   */
+  private applyCollisionGroups() {
+    const groups: CollisionGroupsConfig =
+      this.sceneConfig.collisionGroups || {};
+    Object.entries(groups).forEach(([group, collidesWith]) => {
+      this.allocateCollisionGroup(group);
+      collidesWith.forEach((other) => this.allocateCollisionGroup(other));
+    });
+    if (!this.objectLayerFilter) return;
+
+    const allows = (group: string, other: string) =>
+      !groups[group] || groups[group].includes(other);
+    this.collisionGroupIndex.forEach((a, groupA) => {
+      this.collisionGroupIndex.forEach((b, groupB) => {
+        if (b < a) return;
+        const enabled = allows(groupA, groupB) && allows(groupB, groupA);
+        [
+          [a * 2 + 1, b * 2],
+          [a * 2, b * 2 + 1],
+          [a * 2 + 1, b * 2 + 1],
+        ].forEach(([layerA, layerB]) => {
+          if (enabled) this.objectLayerFilter.EnableCollision(layerA, layerB);
+          else this.objectLayerFilter.DisableCollision(layerA, layerB);
+        });
+      });
+    });
+  }
+
+  addObjectsToLayer(layerId: string, configs: SceneEntry[]): ObjectId[] {
+    if (!this.layers[layerId]) {
+      this.layers[layerId] = { visible: true, opacity: 1.0 };
+    }
+
+    const addedObjectIds: ObjectId[] = [];
+
+    configs.forEach((config) => {
+      // Force the layer in the config
+      const modifiedConfig = { ...config, layer: layerId };
+      var objId = this.addObject(modifiedConfig);
+      //objId = 23098409234;
+      if (objId !== null) {
+        addedObjectIds.push(objId);
+      }
+    });
+
+    console.log(`Added ${addedObjectIds.length} objects to layer ${layerId}`);
+    return addedObjectIds;
+  }
+
+  /**
+   * Remove every object and constraint, leaving an empty scene
+   */
+  clearScene() {
+    // Temporarily disable onObjectsChangeCallback to prevent recursive triggers
+    const originalCallback = this.onObjectsChangeCallback;
+    this.onObjectsChangeCallback = null;
+
+    [...this.constraints].forEach((c) => this.removeConstraint(c.name));
+    [...this.objects].forEach((obj) => this.removeObject(obj.id));
+    this.layers = { main: { visible: true, opacity: 1.0 } };
+    this.objectIdCounter = 0;
+    this.constraintNameCounter = 0;
+
+    this.onObjectsChangeCallback = originalCallback;
+    if (this.onObjectsChangeCallback) {
+      this.onObjectsChangeCallback();
+    }
   }
 
   removeLayer(layerId: string): number {
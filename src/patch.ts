@@ -0,0 +1,146 @@
+// Incremental scene updates: diffScenes() compares two exports and
+// IsoCard.applyPatch() replays the difference on another IsoCard.
+
+import type {
+  ConstraintConfig,
+  LayerConfig,
+  ObjectEntry,
+  ObjectId,
+  ObjectUpdate,
+  SceneEntry,
+  SceneExport,
+  SceneSettingsEntry,
+} from "./isocard.js";
+
+export type ScenePatchOp =
+  | { op: "add"; entry: ObjectEntry }
+  | { op: "remove"; id: ObjectId }
+  /** `unset` lists keys the object no longer has */
+  | { op: "update"; id: ObjectId; changes: ObjectUpdate; unset?: string[] }
+  /** The object changed kind (e.g. mesh to light) and is rebuilt under its id */
+  | { op: "replace"; entry: ObjectEntry }
+  /** Removed settings are sent as null */
+  | { op: "scene"; changes: Partial<SceneSettingsEntry> }
+  | { op: "layer"; layer: string; visible: boolean; opacity: number }
+  | { op: "removeLayer"; layer: string }
+  | { op: "addConstraint"; config: ConstraintConfig }
+  | { op: "removeConstraint"; name: string };
+
+export type ScenePatch = {
+  version: 1;
+  ops: ScenePatchOp[];
+};
+
+// Changing these needs a new THREE object, not an update
+const KIND_KEYS = ["type", "lightType", "helperType", "cameraType"];
+
+const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a).filter((k) => a[k] !== undefined);
+  const otherKeys = Object.keys(b).filter((k) => b[k] !== undefined);
+  return (
+    keys.length === otherKeys.length && keys.every((k) => isEqual(a[k], b[k]))
+  );
+};
+
+const split = (scene: SceneEntry[] | SceneExport) => {
+  const doc: SceneExport = Array.isArray(scene) ? { scene } : scene;
+  const settings: Record<string, any> = {};
+  const objects = new Map<ObjectId, ObjectEntry>();
+  (doc.scene || []).forEach((entry) => {
+    if (entry.type === "scene") {
+      Object.assign(settings, entry);
+      delete settings.type;
+    } else {
+      // Entries without an id (hand-written scenes) are matched by name
+      objects.set(entry.id ?? entry.name, entry);
+    }
+  });
+  return {
+    settings,
+    objects,
+    layers: doc.layers || {},
+    constraints: doc.constraints || [],
+  };
+};
+
+const changedKeys = (a: Record<string, any>, b: Record<string, any>) => {
+  const changes: Record<string, any> = {};
+  const unset: string[] = [];
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach((key) => {
+    if (isEqual(a[key], b[key])) return;
+    if (b[key] === undefined) unset.push(key);
+    else changes[key] = b[key];
+  });
+  return { changes, unset };
+};
+
+/**
+ * Operations that turn scene `a` into scene `b`. Both are exportScene() or
+ * exportSceneWithConstraints() output; objects are matched by id.
+ */
+export function diffScenes(
+  a: SceneEntry[] | SceneExport,
+  b: SceneEntry[] | SceneExport
+): ScenePatch {
+  const from = split(a);
+  const to = split(b);
+  const ops: ScenePatchOp[] = [];
+
+  // Constraints have no update; a changed one is removed and added again
+  const keptConstraints = new Set<string>();
+  from.constraints.forEach((c) => {
+    const match = to.constraints.find((other) => other.name === c.name);
+    if (match && isEqual(c, match)) keptConstraints.add(c.name);
+    else ops.push({ op: "removeConstraint", name: c.name });
+  });
+
+  from.objects.forEach((entry, id) => {
+    if (!to.objects.has(id)) ops.push({ op: "remove", id });
+  });
+
+  const settings = changedKeys(from.settings, to.settings);
+  settings.unset.forEach((key) => (settings.changes[key] = null));
+  if (Object.keys(settings.changes).length) {
+    ops.push({ op: "scene", changes: settings.changes });
+  }
+
+  Object.entries(to.layers).forEach(([layer, config]) => {
+    if (!isEqual(from.layers[layer], config)) {
+      ops.push({ op: "layer", layer, ...config });
+    }
+  });
+
+  to.objects.forEach((entry, id) => {
+    const previous = from.objects.get(id);
+    if (!previous) {
+      ops.push({ op: "add", entry });
+    } else if (KIND_KEYS.some((key) => previous[key] !== entry[key])) {
+      ops.push({ op: "replace", entry });
+    } else {
+      const { changes, unset } = changedKeys(previous, entry);
+      if (Object.keys(changes).length || unset.length) {
+        ops.push({
+          op: "update",
+          id,
+          changes,
+          ...(unset.length > 0 && { unset }),
+        });
+      }
+    }
+  });
+
+  to.constraints.forEach((c) => {
+    if (!keptConstraints.has(c.name))
+      ops.push({ op: "addConstraint", config: c });
+  });
+
+  // Last, so objects moved off a layer aren't removed with it
+  Object.keys(from.layers).forEach((layer) => {
+    if (!to.layers[layer]) ops.push({ op: "removeLayer", layer });
+  });
+
+  return { version: 1, ops };
+}
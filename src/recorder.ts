@@ -0,0 +1,274 @@
+import type { BodyState, IsoCard, ObjectId } from "./isocard.js";
+
+// Mutating IsoCard calls that the recorder captures and the player re-issues
+export type ReplayActionType =
+  | "addObject"
+  | "updateObject"
+  | "removeObject"
+  | "convertObjectToDynamic"
+  | "setGravityConfig"
+  | "setCollisionGroups"
+  | "addConstraint"
+  | "removeConstraint"
+  | "setConstraintMotorTarget"
+  | "applyControllerAction"
+  | "applyForce"
+  | "applyImpulse"
+  | "applyTorque"
+  | "setLinearVelocity"
+  | "setAngularVelocity"
+  | "applyPatch"
+  | "setActiveCamera"
+  | "step";
+
+export type ReplayAction = {
+  /** Tick (relative to the start of the recording) the call was made on */
+  tick: number;
+  type: ReplayActionType;
+  args: any[];
+};
+
+/** What exportSceneWithConstraints() leaves out of a running simulation */
+export type ReplayInitialState = {
+  tick: number;
+  time: number;
+  bodies: Record<
+    ObjectId,
+    Pick<BodyState, "linearVelocity" | "angularVelocity">
+  >;
+};
+
+export type ReplayLog = {
+  version: 1;
+  /** Fixed timestep the recording ran at, in seconds */
+  timeStep: number;
+  /** Total number of ticks stepped while recording */
+  ticks: number;
+  /** Scene as returned by exportSceneWithConstraints() when recording started */
+  initialScene: any;
+  /** Missing from logs made before it was added; those start at rest */
+  initialState?: ReplayInitialState;
+  actions: ReplayAction[];
+};
+
+const clone = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+/**
+ * Captures the initial scene plus every mutating call made on an IsoCard,
+ * tagged with the fixed-step tick it happened on.
+ */
+export class SimulationRecorder {
+  private iso: IsoCard;
+  private startTick: number = 0;
+  private recording: boolean = false;
+  private log: ReplayLog | null = null;
+
+  constructor(iso: IsoCard) {
+    this.iso = iso;
+  }
+
+  start() {
+    this.startTick = this.iso.getTick();
+    const bodies: ReplayInitialState["bodies"] = {};
+    Object.entries(this.iso.getBodyStates()).forEach(([id, state]) => {
+      const { linearVelocity, angularVelocity } = state;
+      bodies[id] = { linearVelocity, angularVelocity };
+    });
+    this.log = {
+      version: 1,
+      timeStep: this.iso.getFixedTimeStep(),
+      ticks: 0,
+      initialScene: clone(this.iso.exportSceneWithConstraints()),
+      initialState: { tick: this.startTick, time: this.iso.getTime(), bodies },
+      actions: [],
+    };
+    this.recording = true;
+  }
+
+  stop(): ReplayLog | null {
+    this.recording = false;
+    return this.log;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Called by IsoCard before it applies a mutation
+   */
+  record(type: ReplayActionType, args: any[]) {
+    if (!this.recording || !this.log) return;
+
+    const tick = this.iso.getTick() - this.startTick;
+    if (type === "step") {
+      this.log.ticks = tick + 1;
+      // Only steps that differ from the log's timestep need an entry
+      const [dt, substeps] = args;
+      if (dt === this.log.timeStep && (substeps ?? 1) === 1) return;
+    }
+
+    this.log.actions.push({ tick, type, args: clone(args) });
+  }
+
+  getLog(): ReplayLog | null {
+    return this.log;
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.log);
+  }
+}
+
+/**
+ * Plays a ReplayLog back on a second IsoCard tick-for-tick.
+ * The target must already have physics set up (setupJOLT()).
+ */
+export class ReplayPlayer {
+  private iso: IsoCard;
+  private log: ReplayLog;
+  private tick: number = 0;
+  private cursor: number = 0;
+
+  constructor(iso: IsoCard, log: ReplayLog | string) {
+    this.iso = iso;
+    this.log = typeof log === "string" ? JSON.parse(log) : log;
+    if (this.log?.version !== 1) {
+      throw new Error("Unsupported replay log version");
+    }
+  }
+
+  /**
+   * Load the recorded initial scene, clock and body velocities into the
+   * target IsoCard
+   */
+  reset() {
+    this.tick = 0;
+    this.cursor = 0;
+    // Recorded controller actions are applied instead of re-running policies
+    this.iso.setControllersEnabled(false);
+    this.iso.loadSceneWithConstraints(JSON.stringify(this.log.initialScene));
+
+    const state = this.log.initialState;
+    if (!state) return;
+    this.iso.setClock(state.tick, state.time);
+    const moving = (v: number[]) => v.some((c) => c !== 0);
+    Object.entries(state.bodies).forEach(([id, body]) => {
+      if (moving(body.linearVelocity)) {
+        this.iso.setLinearVelocity(id, body.linearVelocity);
+      }
+      if (moving(body.angularVelocity)) {
+        this.iso.setAngularVelocity(id, body.angularVelocity);
+      }
+    });
+  }
+
+  isDone(): boolean {
+    return this.tick >= this.log.ticks;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Apply the actions recorded for the current tick, then step once
+   */
+  stepTick(): boolean {
+    if (this.isDone()) return false;
+
+    let dt = this.log.timeStep;
+    let substeps = 1;
+    const actions = this.log.actions;
+    while (
+      this.cursor < actions.length &&
+      actions[this.cursor].tick === this.tick
+    ) {
+      const action = actions[this.cursor++];
+      if (action.type === "step") {
+        [dt, substeps = 1] = action.args;
+      } else {
+        this.apply(action);
+      }
+    }
+
+    this.iso.step(dt, substeps);
+    this.tick++;
+    return true;
+  }
+
+  /**
+   * Play every remaining tick. Returns the number of ticks played.
+   */
+  playAll(): number {
+    let played = 0;
+    while (this.stepTick()) played++;
+
+    // Calls made after the final step still belong to the recording
+    while (this.cursor < this.log.actions.length) {
+      const action = this.log.actions[this.cursor++];
+      if (action.type !== "step") this.apply(action);
+    }
+    return played;
+  }
+
+  private apply(action: ReplayAction) {
+    const args = clone(action.args);
+    switch (action.type) {
+      case "addObject":
+        this.iso.addObject(args[0]);
+        break;
+      case "updateObject":
+        this.iso.updateObject(args[0], args[1]);
+        break;
+      case "removeObject":
+        this.iso.removeObject(args[0]);
+        break;
+      case "convertObjectToDynamic":
+        this.iso.convertObjectToDynamic(args[0], args[1]);
+        break;
+      case "setGravityConfig":
+        this.iso.setGravityConfig(args[0]);
+        break;
+      case "setCollisionGroups":
+        this.iso.setCollisionGroups(args[0]);
+        break;
+      case "setActiveCamera":
+        this.iso.setActiveCamera(args[0]);
+        break;
+      case "addConstraint":
+        this.iso.addConstraint(args[0]);
+        break;
+      case "removeConstraint":
+        this.iso.removeConstraint(args[0]);
+        break;
+      case "setConstraintMotorTarget":
+        this.iso.setConstraintMotorTarget(args[0], args[1], args[2]);
+        break;
+      case "applyControllerAction":
+        this.iso.applyControllerAction(args[0], args[1]);
+        break;
+      case "applyForce":
+        this.iso.applyForce(args[0], args[1], args[2]);
+        break;
+      case "applyImpulse":
+        this.iso.applyImpulse(args[0], args[1], args[2]);
+        break;
+      case "applyTorque":
+        this.iso.applyTorque(args[0], args[1]);
+        break;
+      case "setLinearVelocity":
+        this.iso.setLinearVelocity(args[0], args[1]);
+        break;
+      case "setAngularVelocity":
+        this.iso.setAngularVelocity(args[0], args[1]);
+        break;
+      case "applyPatch":
+        this.iso.applyPatch(args[0]);
+        break;
+      default:
+        console.warn("Unsupported replay action:", action.type);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+// Offscreen rendering for IsoCard.renderToPixels(): a RenderTarget draws the
+// scene into pixel buffers, and encodePNG() turns them into a screenshot.
+
+export type RenderedPixels = {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel, rows from the top */
+  color: Uint8Array;
+  /** Distance along the view axis per pixel; Infinity where nothing was drawn */
+  depth?: Float32Array;
+};
+
+/**
+ * Draws a scene for a camera into pixel buffers. createWebGLRenderTarget()
+ * wraps a THREE.WebGLRenderer (on a page or a headless GL context); software
+ * rasterizers can implement this directly.
+ */
+export interface RenderTarget {
+  render(
+    scene: any,
+    camera: any,
+    width: number,
+    height: number,
+    options: { depth: boolean }
+  ): RenderedPixels;
+  dispose?(): void;
+}
+
+// View depth / far, packed into 24 bits of RGB; alpha 0 means nothing was drawn
+const DEPTH_VERTEX_SHADER = `
+varying float vViewDepth;
+void main() {
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  vViewDepth = -mvPosition.z;
+  gl_Position = projectionMatrix * mvPosition;
+}`;
+
+const DEPTH_FRAGMENT_SHADER = `
+uniform float far;
+varying float vViewDepth;
+void main() {
+  vec3 packed = fract(clamp(vViewDepth / far, 0.0, 1.0) * vec3(1.0, 255.0, 65025.0));
+  packed -= packed.yzz * vec3(1.0 / 255.0, 1.0 / 255.0, 0.0);
+  gl_FragColor = vec4(packed, 1.0);
+}`;
+
+/** GL reads rows from the bottom */
+const flipRows = (pixels: Uint8Array, width: number, height: number) => {
+  const stride = width * 4;
+  const flipped = new Uint8Array(pixels.length);
+  for (let y = 0; y < height; y++) {
+    flipped.set(
+      pixels.subarray(y * stride, (y + 1) * stride),
+      (height - 1 - y) * stride
+    );
+  }
+  return flipped;
+};
+
+/**
+ * RenderTarget backed by a THREE.WebGLRenderer. The renderer's own canvas and
+ * render target are left as they were.
+ */
+export function createWebGLRenderTarget(
+  THREE: any,
+  renderer: any
+): RenderTarget {
+  let target: any = null;
+  let depthMaterial: any = null;
+
+  const draw = (scene, camera, width: number, height: number) => {
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    const pixels = new Uint8Array(width * height * 4);
+    renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+    return flipRows(pixels, width, height);
+  };
+
+  const drawDepth = (scene, camera, width: number, height: number) => {
+    depthMaterial ??= new THREE.ShaderMaterial({
+      uniforms: { far: { value: 1 } },
+      vertexShader: DEPTH_VERTEX_SHADER,
+      fragmentShader: DEPTH_FRAGMENT_SHADER,
+    });
+    depthMaterial.uniforms.far.value = camera.far;
+
+    const { background, overrideMaterial } = scene;
+    const clearColor = renderer.getClearColor(new THREE.Color());
+    const clearAlpha = renderer.getClearAlpha();
+    scene.background = null;
+    scene.overrideMaterial = depthMaterial;
+    renderer.setClearColor(0x000000, 0);
+    try {
+      const packed = draw(scene, camera, width, height);
+      const depth = new Float32Array(width * height);
+      for (let i = 0; i < depth.length; i++) {
+        const [r, g, b, a] = packed.subarray(i * 4, i * 4 + 4);
+        depth[i] =
+          a === 0
+            ? Infinity
+            : (r / 255 + g / 65025 + b / 16581375) * camera.far;
+      }
+      return depth;
+    } finally {
+      scene.background = background;
+      scene.overrideMaterial = overrideMaterial;
+      renderer.setClearColor(clearColor, clearAlpha);
+    }
+  };
+
+  return {
+    render(scene, camera, width, height, { depth }) {
+      if (!target || target.width !== width || target.height !== height) {
+        target?.dispose();
+        target = new THREE.WebGLRenderTarget(width, height);
+        // Match what the canvas shows; older THREE versions have no colorSpace
+        if (THREE.SRGBColorSpace)
+          target.texture.colorSpace = THREE.SRGBColorSpace;
+      }
+
+      const previousTarget = renderer.getRenderTarget();
+      try {
+        return {
+          width,
+          height,
+          color: draw(scene, camera, width, height),
+          ...(depth && { depth: drawDepth(scene, camera, width, height) }),
+        };
+      } finally {
+        renderer.setRenderTarget(previousTarget);
+      }
+    },
+    dispose() {
+      target?.dispose();
+      depthMaterial?.dispose();
+      target = depthMaterial = null;
+    },
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array) => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * zlib stream of `data`; uncompressed blocks where CompressionStream is missing
+ */
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof CompressionStream !== "undefined") {
+    // Only called with arrays that own their whole buffer
+    const stream = new Blob([data.buffer as ArrayBuffer])
+      .stream()
+      .pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  const blockSize = 65535;
+  const blocks = Math.max(1, Math.ceil(data.length / blockSize));
+  const out = new Uint8Array(2 + blocks * 5 + data.length + 4);
+  const view = new DataView(out.buffer);
+  out.set([0x78, 0x01]);
+  let offset = 2;
+  for (let i = 0; i < blocks; i++) {
+    const block = data.subarray(i * blockSize, (i + 1) * blockSize);
+    out[offset] = i === blocks - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    out.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  view.setUint32(offset, adler32(data));
+  return out;
+};
+
+/**
+ * PNG file of rendered RGBA pixels
+ */
+export async function encodePNG(pixels: RenderedPixels): Promise<Uint8Array> {
+  const { width, height, color } = pixels;
+  // Every row starts with filter type 0 (none)
+  const rows = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    rows.set(
+      color.subarray(y * width * 4, (y + 1) * width * 4),
+      y * (width * 4 + 1) + 1
+    );
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlace
+
+  const chunks = [
+    ["IHDR", header],
+    ["IDAT", await deflate(rows)],
+    ["IEND", new Uint8Array(0)],
+  ] as const;
+  const size = chunks.reduce((total, [, data]) => total + 12 + data.length, 8);
+  const png = new Uint8Array(size);
+  const view = new DataView(png.buffer);
+  png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  let offset = 8;
+  chunks.forEach(([type, data]) => {
+    const typed = new Uint8Array(4 + data.length);
+    typed.set([...type].map((c) => c.charCodeAt(0)));
+    typed.set(data, 4);
+    view.setUint32(offset, data.length);
+    png.set(typed, offset + 4);
+    view.setUint32(offset + 4 + typed.length, crc32(typed));
+    offset += 8 + typed.length;
+  });
+  return png;
+}
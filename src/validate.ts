@@ -0,0 +1,1242 @@
+// Checks scene JSON against the format described in INSTRUCTIONS.md and
+// reports every problem with its location, instead of skipping bad entries.
+
+export type SceneIssue = {
+  severity: "error" | "warning";
+  /** JSON path, e.g. `$[3].shape.radius` or `$.constraints[0].bodyA` */
+  path: string;
+  /** Index of the top-level scene entry the issue belongs to */
+  index?: number;
+  /** Name of the (possibly nested) entry the issue belongs to */
+  name?: string;
+  message: string;
+};
+
+export type SceneValidation = {
+  /** True when there are no errors; warnings don't make a scene invalid */
+  valid: boolean;
+  errors: SceneIssue[];
+  warnings: SceneIssue[];
+};
+
+type Entry = Record<string, any>;
+
+type Context = {
+  issues: SceneIssue[];
+  index?: number;
+  name?: string;
+  /** Every object name in the scene, for parent and constraint references */
+  names: Set<string>;
+  /** Every explicit object id; constraints and attractors may use these too */
+  ids: Set<string>;
+};
+
+const ENTRY_TYPES = ["mesh", "light", "helper", "group", "camera", "scene"];
+const COMMON_KEYS = [
+  "type",
+  "id",
+  "name",
+  "layer",
+  "enabled",
+  "pos",
+  "rot",
+  "euler",
+];
+const OBJECT_KEYS = [
+  ...COMMON_KEYS,
+  "scale",
+  "parent",
+  "children",
+  "physics",
+  "motion",
+  "sensors",
+  "controller",
+];
+
+const ENTRY_KEYS: Record<string, string[]> = {
+  mesh: [
+    ...OBJECT_KEYS,
+    "shape",
+    "material",
+    "color",
+    "castShadow",
+    "receiveShadow",
+  ],
+  group: OBJECT_KEYS,
+  light: [
+    ...COMMON_KEYS,
+    "lightType",
+    "color",
+    "intensity",
+    "distance",
+    "decay",
+    "angle",
+    "penumbra",
+    "skyColor",
+    "groundColor",
+    "castShadow",
+    "target",
+  ],
+  helper: [
+    ...COMMON_KEYS,
+    "helperType",
+    "size",
+    "divisions",
+    "colorCenterLine",
+    "colorGrid",
+  ],
+  camera: [
+    ...COMMON_KEYS,
+    "cameraType",
+    "fov",
+    "size",
+    "near",
+    "far",
+    "lookAt",
+    "parent",
+    "rig",
+  ],
+  scene: [
+    ...COMMON_KEYS,
+    "background",
+    "fog",
+    "gravity",
+    "collisionGroups",
+    "camera",
+    "activeCamera",
+  ],
+};
+
+const LIGHT_TYPES = ["directional", "ambient", "point", "spot", "hemisphere"];
+const HELPER_TYPES = ["grid", "axes"];
+const CAMERA_TYPES = ["perspective", "orthographic"];
+const RIG_MODES = ["follow", "chase", "firstPerson"];
+
+const POLYHEDRON_KEYS = ["radius", "detail"];
+const SHAPE_KEYS: Record<string, string[]> = {
+  box: [
+    "width",
+    "height",
+    "depth",
+    "widthSegments",
+    "heightSegments",
+    "depthSegments",
+  ],
+  sphere: [
+    "radius",
+    "widthSegments",
+    "heightSegments",
+    "phiStart",
+    "phiLength",
+    "thetaStart",
+    "thetaLength",
+  ],
+  plane: ["width", "height", "widthSegments", "heightSegments"],
+  cylinder: [
+    "radiusTop",
+    "radiusBottom",
+    "height",
+    "radialSegments",
+    "heightSegments",
+    "openEnded",
+    "thetaStart",
+    "thetaLength",
+  ],
+  cone: [
+    "radius",
+    "height",
+    "radialSegments",
+    "heightSegments",
+    "openEnded",
+    "thetaStart",
+    "thetaLength",
+  ],
+  torus: ["radius", "tube", "radialSegments", "tubularSegments", "arc"],
+  circle: ["radius", "segments", "thetaStart", "thetaLength"],
+  ring: [
+    "innerRadius",
+    "outerRadius",
+    "thetaSegments",
+    "phiSegments",
+    "thetaStart",
+    "thetaLength",
+  ],
+  dodecahedron: POLYHEDRON_KEYS,
+  icosahedron: POLYHEDRON_KEYS,
+  octahedron: POLYHEDRON_KEYS,
+  tetrahedron: POLYHEDRON_KEYS,
+  torusknot: ["radius", "tube", "tubularSegments", "radialSegments", "p", "q"],
+  capsule: ["radius", "height", "capSegments", "radialSegments"],
+  heightfield: ["width", "depth", "heights", "sampleCount", "noise"],
+};
+/** Shape sizes that must be positive when given */
+const SHAPE_SIZES = [
+  "width",
+  "height",
+  "depth",
+  "radius",
+  "radiusTop",
+  "radiusBottom",
+  "tube",
+  "innerRadius",
+  "outerRadius",
+];
+
+const MATERIAL_COMMON_KEYS = [
+  "type",
+  "color",
+  "side",
+  "transparent",
+  "opacity",
+  "wireframe",
+  "visible",
+  "map",
+];
+const MATERIAL_KEYS: Record<string, string[]> = {
+  basic: [],
+  lambert: ["emissive"],
+  phong: ["specular", "shininess", "emissive"],
+  standard: ["roughness", "metalness", "emissive", "envMapIntensity"],
+  physical: [
+    "roughness",
+    "metalness",
+    "emissive",
+    "clearcoat",
+    "clearcoatRoughness",
+    "sheen",
+  ],
+  toon: ["gradientMap"],
+  normal: [],
+  depth: [],
+  linebasic: ["linewidth"],
+  linedashed: ["linewidth", "scale", "dashSize", "gapSize"],
+  points: ["size", "sizeAttenuation"],
+  sprite: [],
+  shadow: [],
+};
+
+const SIX_DOF_AXES = [
+  "translationX",
+  "translationY",
+  "translationZ",
+  "rotationX",
+  "rotationY",
+  "rotationZ",
+];
+
+const PHYSICS_KEYS = [
+  "motionType",
+  "mass",
+  "friction",
+  "restitution",
+  "linearDamping",
+  "angularDamping",
+  "gravityFactor",
+  "linearVelocity",
+  "angularVelocity",
+  "allowSleeping",
+  "motionQuality",
+  "centerOfMassOffset",
+  "inertia",
+  "maxLinearVelocity",
+  "maxAngularVelocity",
+  "allowedDOFs",
+  "collider",
+  "compound",
+  "isSensor",
+  "gravityStrength",
+  "gravityFalloff",
+  "gravityRadius",
+  "collisionGroup",
+];
+
+const GRAVITY_FALLOFFS = ["inverseSquare", "linear", "constant"];
+const CAMERA_KEYS = [
+  "position",
+  "lookAt",
+  "fov",
+  "near",
+  "far",
+  "locked",
+  "orbitTarget",
+  "orbitEnabled",
+];
+
+const CONSTRAINT_TYPES = [
+  "fixed",
+  "point",
+  "hinge",
+  "slider",
+  "distance",
+  "cone",
+  "sixDOF",
+];
+const SPRING_KEYS = ["frequency", "stiffness", "damping"];
+const MOTOR_KEYS = [...SPRING_KEYS, "state", "target", "maxForce", "maxTorque"];
+const CONSTRAINT_KEYS = [
+  "type",
+  "name",
+  "bodyA",
+  "bodyB",
+  "point",
+  "pointA",
+  "pointB",
+  "axis",
+  "normal",
+  "limits",
+  "minDistance",
+  "maxDistance",
+  "halfConeAngle",
+  "maxFriction",
+  "spring",
+  "motor",
+  "axes",
+  "springs",
+  "motors",
+  "enabled",
+];
+
+/** Keys people reach for that the format spells differently */
+const KEY_HINTS: Record<string, string> = {
+  position: "pos",
+  rotation: "euler",
+  quaternion: "rot",
+  geometry: "shape",
+  size: "scale",
+  rigidbody: "physics",
+  body: "physics",
+};
+
+const isObject = (value: any): value is Entry =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: any): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const describe = (value: any): string =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value;
+
+/** Edit distance, for "did you mean" hints on misspelled keys */
+const distance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const report = (
+  ctx: Context,
+  severity: SceneIssue["severity"],
+  path: string,
+  message: string
+) => {
+  const issue: SceneIssue = { severity, path, message };
+  if (ctx.index !== undefined) issue.index = ctx.index;
+  if (ctx.name !== undefined) issue.name = ctx.name;
+  ctx.issues.push(issue);
+};
+
+const checkKeys = (
+  ctx: Context,
+  value: Entry,
+  path: string,
+  allowed: string[]
+) => {
+  Object.keys(value).forEach((key) => {
+    if (allowed.includes(key)) return;
+    // Short keys get a tighter match so "mass" doesn't suggest "name"
+    const maxDistance = key.length > 4 ? 2 : 1;
+    const hint =
+      (allowed.includes(KEY_HINTS[key]) && KEY_HINTS[key]) ||
+      (allowed.includes("physics") && PHYSICS_KEYS.includes(key)
+        ? `physics.${key}`
+        : allowed.find(
+            (k) =>
+              k.toLowerCase() === key.toLowerCase() ||
+              distance(k, key) <= maxDistance
+          ));
+    report(
+      ctx,
+      "warning",
+      `${path}.${key}`,
+      `Unknown key "${key}" is ignored` +
+        (hint ? `; did you mean "${hint}"?` : "")
+    );
+  });
+};
+
+const checkNumber = (
+  ctx: Context,
+  value: Entry,
+  key: string,
+  path: string,
+  { min, positive }: { min?: number; positive?: boolean } = {}
+) => {
+  const v = value[key];
+  if (v === undefined) return;
+  if (!isNumber(v)) {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected a number, got ${describe(v)}`
+    );
+  } else if (positive && v <= 0) {
+    report(ctx, "error", `${path}.${key}`, "Must be greater than 0");
+  } else if (min !== undefined && v < min) {
+    report(ctx, "error", `${path}.${key}`, `Must be at least ${min}`);
+  }
+};
+
+const checkBoolean = (
+  ctx: Context,
+  value: Entry,
+  key: string,
+  path: string
+) => {
+  const v = value[key];
+  if (v !== undefined && typeof v !== "boolean") {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected true or false, got ${describe(v)}`
+    );
+  }
+};
+
+const checkString = (ctx: Context, value: Entry, key: string, path: string) => {
+  const v = value[key];
+  if (v !== undefined && typeof v !== "string") {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected a string, got ${describe(v)}`
+    );
+  }
+};
+
+const checkEnum = (
+  ctx: Context,
+  value: Entry,
+  key: string,
+  path: string,
+  options: string[]
+) => {
+  const v = value[key];
+  if (v !== undefined && !options.includes(v)) {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected one of ${options.map((o) => `"${o}"`).join(", ")}, got ${JSON.stringify(v)}`
+    );
+  }
+};
+
+const checkVector = (
+  ctx: Context,
+  value: Entry,
+  key: string,
+  path: string,
+  lengths: number[] = [3]
+) => {
+  const v = value[key];
+  if (v === undefined) return;
+  if (!Array.isArray(v) || !lengths.includes(v.length) || !v.every(isNumber)) {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected an array of ${lengths.join(" or ")} numbers, got ${JSON.stringify(v)}`
+    );
+  }
+};
+
+const checkColor = (ctx: Context, value: Entry, key: string, path: string) => {
+  const v = value[key];
+  if (v === undefined || v === null || isNumber(v)) return;
+  if (typeof v === "string") {
+    report(
+      ctx,
+      "warning",
+      `${path}.${key}`,
+      "Colors should be decimal integers, e.g. 16711680 for red"
+    );
+  } else {
+    report(
+      ctx,
+      "error",
+      `${path}.${key}`,
+      `Expected a color number, got ${describe(v)}`
+    );
+  }
+};
+
+/** Report non-objects; returns whether the value can be checked further */
+const checkObject = (
+  ctx: Context,
+  value: any,
+  path: string,
+  required = false
+): value is Entry => {
+  // Exported scenes write unset settings as null
+  if ((value === undefined || value === null) && !required) return false;
+  if (isObject(value)) return true;
+  report(
+    ctx,
+    "error",
+    path,
+    value === undefined
+      ? "Missing required object"
+      : `Expected an object, got ${describe(value)}`
+  );
+  return false;
+};
+
+const checkArray = (ctx: Context, value: any, path: string): value is any[] => {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return true;
+  report(ctx, "error", path, `Expected an array, got ${describe(value)}`);
+  return false;
+};
+
+const checkShape = (ctx: Context, shape: any, path: string, physics: any) => {
+  if (!checkObject(ctx, shape, path, true)) return;
+  if (!SHAPE_KEYS[shape.type]) {
+    report(
+      ctx,
+      "error",
+      `${path}.type`,
+      shape.type === undefined
+        ? "Missing shape type"
+        : `Unsupported shape "${shape.type}"; expected one of ${Object.keys(SHAPE_KEYS).join(", ")}`
+    );
+    return;
+  }
+
+  checkKeys(ctx, shape, path, ["type", ...SHAPE_KEYS[shape.type]]);
+  SHAPE_KEYS[shape.type]
+    .filter((key) => !["heights", "noise", "openEnded"].includes(key))
+    .forEach((key) =>
+      checkNumber(ctx, shape, key, path, {
+        positive: SHAPE_SIZES.includes(key),
+      })
+    );
+  checkBoolean(ctx, shape, "openEnded", path);
+
+  if (shape.type === "heightfield") {
+    if (shape.heights !== undefined) {
+      const heights = Array.isArray(shape.heights)
+        ? shape.heights.flat()
+        : null;
+      const size = heights ? Math.round(Math.sqrt(heights.length)) : 0;
+      if (
+        !heights ||
+        !heights.every(isNumber) ||
+        size < 2 ||
+        size * size !== heights.length
+      ) {
+        report(
+          ctx,
+          "error",
+          `${path}.heights`,
+          "Heights must be a square grid of at least 2x2 numbers"
+        );
+      }
+    }
+    if (checkObject(ctx, shape.noise, `${path}.noise`)) {
+      checkKeys(ctx, shape.noise, `${path}.noise`, [
+        "amplitude",
+        "frequency",
+        "octaves",
+        "seed",
+      ]);
+      ["amplitude", "frequency", "octaves", "seed"].forEach((key) =>
+        checkNumber(ctx, shape.noise, key, `${path}.noise`)
+      );
+    }
+    // The runtime falls back to a convex hull, so the scene still loads
+    if (
+      physics &&
+      physics.motionType !== "static" &&
+      (physics.collider ?? "auto") === "auto"
+    ) {
+      report(
+        ctx,
+        "warning",
+        path,
+        'Heightfields without physics.motionType "static" collide as a convex hull'
+      );
+    }
+  }
+};
+
+const checkMaterial = (ctx: Context, material: any, path: string) => {
+  if (!checkObject(ctx, material, path)) return;
+  const type =
+    typeof material.type === "string" ? material.type.toLowerCase() : "phong";
+  if (!MATERIAL_KEYS[type]) {
+    report(
+      ctx,
+      "error",
+      `${path}.type`,
+      `Unsupported material "${material.type}"; expected one of ${Object.keys(MATERIAL_KEYS).join(", ")}`
+    );
+    return;
+  }
+  checkKeys(ctx, material, path, [
+    ...MATERIAL_COMMON_KEYS,
+    ...MATERIAL_KEYS[type],
+  ]);
+  ["color", "emissive", "specular"].forEach((key) =>
+    checkColor(ctx, material, key, path)
+  );
+  checkNumber(ctx, material, "opacity", path, { min: 0 });
+  ["transparent", "wireframe", "visible"].forEach((key) =>
+    checkBoolean(ctx, material, key, path)
+  );
+};
+
+const checkPhysics = (ctx: Context, physics: any, path: string) => {
+  if (!checkObject(ctx, physics, path)) return;
+  checkKeys(ctx, physics, path, PHYSICS_KEYS);
+  checkEnum(ctx, physics, "motionType", path, [
+    "static",
+    "dynamic",
+    "kinematic",
+  ]);
+  checkNumber(ctx, physics, "mass", path, { positive: true });
+  [
+    "friction",
+    "restitution",
+    "linearDamping",
+    "angularDamping",
+    "maxLinearVelocity",
+    "maxAngularVelocity",
+    "gravityRadius",
+  ].forEach((key) => checkNumber(ctx, physics, key, path, { min: 0 }));
+  ["gravityFactor", "gravityStrength"].forEach((key) =>
+    checkNumber(ctx, physics, key, path)
+  );
+  [
+    "linearVelocity",
+    "angularVelocity",
+    "centerOfMassOffset",
+    "inertia",
+  ].forEach((key) => checkVector(ctx, physics, key, path));
+  checkBoolean(ctx, physics, "allowSleeping", path);
+  checkBoolean(ctx, physics, "isSensor", path);
+  checkString(ctx, physics, "collisionGroup", path);
+  checkEnum(ctx, physics, "motionQuality", path, ["discrete", "linearCast"]);
+  checkEnum(ctx, physics, "collider", path, [
+    "auto",
+    "box",
+    "convexHull",
+    "mesh",
+  ]);
+  checkEnum(ctx, physics, "compound", path, ["static", "mutable"]);
+  checkEnum(ctx, physics, "gravityFalloff", path, GRAVITY_FALLOFFS);
+
+  const dofs = physics.allowedDOFs;
+  if (
+    dofs !== undefined &&
+    dofs !== "plane2D" &&
+    !(Array.isArray(dofs) && dofs.every((axis) => SIX_DOF_AXES.includes(axis)))
+  ) {
+    report(
+      ctx,
+      "error",
+      `${path}.allowedDOFs`,
+      `Expected "plane2D" or an array of ${SIX_DOF_AXES.join(", ")}`
+    );
+  }
+  if (
+    physics.collider === "mesh" &&
+    (physics.motionType ?? "static") !== "static"
+  ) {
+    report(
+      ctx,
+      "warning",
+      `${path}.collider`,
+      '"mesh" colliders only work on static bodies'
+    );
+  }
+};
+
+const checkMotion = (ctx: Context, motion: any, path: string) => {
+  if (!checkObject(ctx, motion, path)) return;
+  checkKeys(ctx, motion, path, ["path", "oscillate", "rotate", "time"]);
+  checkNumber(ctx, motion, "time", path);
+
+  const route = motion.path;
+  if (checkObject(ctx, route, `${path}.path`)) {
+    checkKeys(ctx, route, `${path}.path`, [
+      "points",
+      "speed",
+      "loop",
+      "pingPong",
+    ]);
+    if (
+      !Array.isArray(route.points) ||
+      route.points.length === 0 ||
+      !route.points.every(
+        (p) => Array.isArray(p) && p.length === 3 && p.every(isNumber)
+      )
+    ) {
+      report(
+        ctx,
+        "error",
+        `${path}.path.points`,
+        "Expected a non-empty array of [x, y, z] points"
+      );
+    }
+    checkNumber(ctx, route, "speed", `${path}.path`, { min: 0 });
+    checkBoolean(ctx, route, "loop", `${path}.path`);
+    checkBoolean(ctx, route, "pingPong", `${path}.path`);
+  }
+
+  const oscillate = motion.oscillate;
+  if (checkObject(ctx, oscillate, `${path}.oscillate`)) {
+    checkKeys(ctx, oscillate, `${path}.oscillate`, [
+      "axis",
+      "amplitude",
+      "frequency",
+      "phase",
+    ]);
+    checkVector(ctx, oscillate, "axis", `${path}.oscillate`);
+    ["amplitude", "frequency", "phase"].forEach((key) =>
+      checkNumber(ctx, oscillate, key, `${path}.oscillate`)
+    );
+  }
+
+  const rotate = motion.rotate;
+  if (checkObject(ctx, rotate, `${path}.rotate`)) {
+    checkKeys(ctx, rotate, `${path}.rotate`, [
+      "axis",
+      "speed",
+      "angle",
+      "loop",
+      "pingPong",
+    ]);
+    checkVector(ctx, rotate, "axis", `${path}.rotate`);
+    checkNumber(ctx, rotate, "speed", `${path}.rotate`);
+    checkNumber(ctx, rotate, "angle", `${path}.rotate`, { min: 0 });
+    checkBoolean(ctx, rotate, "loop", `${path}.rotate`);
+    checkBoolean(ctx, rotate, "pingPong", `${path}.rotate`);
+  }
+};
+
+const SENSOR_KEYS: Record<string, string[]> = {
+  lidar: ["rays", "fov", "range"],
+  depth: ["width", "height", "fov", "range"],
+  imu: [],
+  contact: [],
+  proximity: ["range"],
+};
+
+const checkSensors = (ctx: Context, sensors: any, path: string) => {
+  if (!checkArray(ctx, sensors, path)) return;
+  const names = new Set<string>();
+  sensors.forEach((sensor, i) => {
+    const sensorPath = `${path}[${i}]`;
+    if (!checkObject(ctx, sensor, sensorPath, true)) return;
+    if (!SENSOR_KEYS[sensor.type]) {
+      report(
+        ctx,
+        "error",
+        `${sensorPath}.type`,
+        `Expected one of ${Object.keys(SENSOR_KEYS)
+          .map((t) => `"${t}"`)
+          .join(", ")}, got ${JSON.stringify(sensor.type)}`
+      );
+      return;
+    }
+    checkKeys(ctx, sensor, sensorPath, [
+      "type",
+      "name",
+      "hz",
+      "offset",
+      "euler",
+      ...SENSOR_KEYS[sensor.type],
+    ]);
+    checkString(ctx, sensor, "name", sensorPath);
+    checkNumber(ctx, sensor, "hz", sensorPath, { positive: true });
+    checkVector(ctx, sensor, "offset", sensorPath);
+    checkVector(ctx, sensor, "euler", sensorPath);
+    SENSOR_KEYS[sensor.type].forEach((key) =>
+      checkNumber(ctx, sensor, key, sensorPath, { positive: true })
+    );
+
+    if (typeof sensor.name === "string") {
+      if (names.has(sensor.name)) {
+        report(
+          ctx,
+          "warning",
+          `${sensorPath}.name`,
+          `Another sensor is named "${sensor.name}"; only its last reading is kept`
+        );
+      }
+      names.add(sensor.name);
+    }
+  });
+};
+
+const checkGravity = (ctx: Context, gravity: any, path: string) => {
+  if (!checkObject(ctx, gravity, path)) return;
+  checkKeys(ctx, gravity, path, [
+    "type",
+    "vector",
+    "center",
+    "strength",
+    "falloff",
+    "attractors",
+    "zones",
+  ]);
+  checkEnum(ctx, gravity, "type", path, ["uniform", "radial"]);
+  checkVector(ctx, gravity, "vector", path);
+  checkVector(ctx, gravity, "center", path);
+  checkNumber(ctx, gravity, "strength", path);
+  checkEnum(ctx, gravity, "falloff", path, GRAVITY_FALLOFFS);
+
+  if (checkArray(ctx, gravity.attractors, `${path}.attractors`)) {
+    gravity.attractors.forEach((attractor, i) => {
+      const at = `${path}.attractors[${i}]`;
+      if (!checkObject(ctx, attractor, at, true)) return;
+      checkKeys(ctx, attractor, at, [
+        "position",
+        "object",
+        "strength",
+        "falloff",
+        "radius",
+      ]);
+      checkVector(ctx, attractor, "position", at);
+      if (!isNumber(attractor.strength)) {
+        report(
+          ctx,
+          "error",
+          `${at}.strength`,
+          "Attractors need a numeric strength"
+        );
+      }
+      checkEnum(ctx, attractor, "falloff", at, GRAVITY_FALLOFFS);
+      checkNumber(ctx, attractor, "radius", at, { positive: true });
+      checkObjectRef(ctx, attractor.object, `${at}.object`);
+    });
+  }
+
+  if (checkArray(ctx, gravity.zones, `${path}.zones`)) {
+    gravity.zones.forEach((zone, i) => {
+      const at = `${path}.zones[${i}]`;
+      if (!checkObject(ctx, zone, at, true)) return;
+      checkKeys(ctx, zone, at, ["shape", "center", "size", "radius", "vector"]);
+      if (!["box", "sphere"].includes(zone.shape)) {
+        report(ctx, "error", `${at}.shape`, 'Expected "box" or "sphere"');
+      }
+      if (zone.vector === undefined) {
+        report(ctx, "error", `${at}.vector`, "Zones need a gravity vector");
+      }
+      checkVector(ctx, zone, "vector", at);
+      checkVector(ctx, zone, "center", at);
+      checkVector(ctx, zone, "size", at);
+      checkNumber(ctx, zone, "radius", at, { positive: true });
+    });
+  }
+};
+
+const checkSceneSettings = (ctx: Context, entry: Entry, path: string) => {
+  checkColor(ctx, entry, "background", path);
+  if (checkObject(ctx, entry.fog, `${path}.fog`)) {
+    checkKeys(ctx, entry.fog, `${path}.fog`, ["color", "near", "far"]);
+    checkColor(ctx, entry.fog, "color", `${path}.fog`);
+    checkNumber(ctx, entry.fog, "near", `${path}.fog`, { min: 0 });
+    checkNumber(ctx, entry.fog, "far", `${path}.fog`, { min: 0 });
+  }
+  checkGravity(ctx, entry.gravity, `${path}.gravity`);
+  if (checkObject(ctx, entry.collisionGroups, `${path}.collisionGroups`)) {
+    Object.entries(entry.collisionGroups).forEach(([group, collidesWith]) => {
+      if (
+        !Array.isArray(collidesWith) ||
+        !collidesWith.every((other) => typeof other === "string")
+      ) {
+        report(
+          ctx,
+          "error",
+          `${path}.collisionGroups.${group}`,
+          "Expected an array of group names"
+        );
+      }
+    });
+  }
+  if (checkObject(ctx, entry.camera, `${path}.camera`)) {
+    const at = `${path}.camera`;
+    checkKeys(ctx, entry.camera, at, CAMERA_KEYS);
+    ["position", "lookAt", "orbitTarget"].forEach((key) =>
+      checkVector(ctx, entry.camera, key, at)
+    );
+    checkNumber(ctx, entry.camera, "fov", at, { positive: true });
+    checkNumber(ctx, entry.camera, "near", at, { positive: true });
+    checkNumber(ctx, entry.camera, "far", at, { positive: true });
+    checkBoolean(ctx, entry.camera, "locked", at);
+    checkBoolean(ctx, entry.camera, "orbitEnabled", at);
+  }
+  checkString(ctx, entry, "activeCamera", path);
+  checkObjectRef(ctx, entry.activeCamera, `${path}.activeCamera`);
+};
+
+/** Warn about references to objects that aren't in the scene */
+const checkObjectRef = (ctx: Context, ref: any, path: string) => {
+  if (typeof ref === "string" && !ctx.names.has(ref) && !ctx.ids.has(ref)) {
+    report(ctx, "warning", path, `No object named "${ref}"`);
+  }
+};
+
+const checkParent = (ctx: Context, entry: Entry, path: string) => {
+  if (entry.parent === undefined) return;
+  if (typeof entry.parent !== "string") {
+    report(
+      ctx,
+      "error",
+      `${path}.parent`,
+      "Expected the name of another object"
+    );
+  } else if (!ctx.names.has(entry.parent)) {
+    report(
+      ctx,
+      "warning",
+      `${path}.parent`,
+      `No object named "${entry.parent}"; it stays at the root`
+    );
+  }
+};
+
+const checkCamera = (ctx: Context, entry: Entry, path: string) => {
+  checkEnum(ctx, entry, "cameraType", path, CAMERA_TYPES);
+  ["fov", "size", "near", "far"].forEach((key) =>
+    checkNumber(ctx, entry, key, path, { positive: true })
+  );
+  checkVector(ctx, entry, "lookAt", path);
+  checkParent(ctx, entry, path);
+
+  const rig = entry.rig;
+  const at = `${path}.rig`;
+  if (!checkObject(ctx, rig, at)) return;
+  checkKeys(ctx, rig, at, [
+    "target",
+    "mode",
+    "offset",
+    "lookAtOffset",
+    "smoothing",
+  ]);
+  if (typeof rig.target !== "string") {
+    report(
+      ctx,
+      "error",
+      `${at}.target`,
+      "Expected the name (or id) of the object to follow"
+    );
+  }
+  checkObjectRef(ctx, rig.target, `${at}.target`);
+  checkEnum(ctx, rig, "mode", at, RIG_MODES);
+  checkVector(ctx, rig, "offset", at);
+  checkVector(ctx, rig, "lookAtOffset", at);
+  checkNumber(ctx, rig, "smoothing", at, { min: 0 });
+};
+
+const checkEntry = (ctx: Context, entry: any, path: string) => {
+  if (!checkObject(ctx, entry, path, true)) return;
+  const previousName = ctx.name;
+  if (typeof entry.name === "string") ctx.name = entry.name;
+
+  const type = entry.type ?? "mesh";
+  if (!ENTRY_TYPES.includes(type)) {
+    report(
+      ctx,
+      "error",
+      `${path}.type`,
+      `Unsupported object type ${JSON.stringify(type)}; expected one of ${ENTRY_TYPES.join(", ")}`
+    );
+    ctx.name = previousName;
+    return;
+  }
+
+  checkKeys(ctx, entry, path, ENTRY_KEYS[type]);
+  checkString(ctx, entry, "id", path);
+  checkString(ctx, entry, "name", path);
+  checkString(ctx, entry, "layer", path);
+  checkBoolean(ctx, entry, "enabled", path);
+  checkVector(ctx, entry, "pos", path);
+  checkVector(ctx, entry, "rot", path, [3, 4]);
+  checkVector(ctx, entry, "euler", path);
+
+  switch (type) {
+    case "scene":
+      checkSceneSettings(ctx, entry, path);
+      break;
+    case "light":
+      if (!LIGHT_TYPES.includes(entry.lightType)) {
+        report(
+          ctx,
+          "error",
+          `${path}.lightType`,
+          `Expected one of ${LIGHT_TYPES.join(", ")}, got ${JSON.stringify(entry.lightType)}`
+        );
+      }
+      ["color", "skyColor", "groundColor"].forEach((key) =>
+        checkColor(ctx, entry, key, path)
+      );
+      ["intensity", "distance", "decay", "angle", "penumbra"].forEach((key) =>
+        checkNumber(ctx, entry, key, path, { min: 0 })
+      );
+      checkBoolean(ctx, entry, "castShadow", path);
+      checkVector(ctx, entry, "target", path);
+      break;
+    case "helper":
+      if (!HELPER_TYPES.includes(entry.helperType)) {
+        report(
+          ctx,
+          "error",
+          `${path}.helperType`,
+          `Expected one of ${HELPER_TYPES.join(", ")}, got ${JSON.stringify(entry.helperType)}`
+        );
+      }
+      checkNumber(ctx, entry, "size", path, { positive: true });
+      checkNumber(ctx, entry, "divisions", path, { positive: true });
+      checkColor(ctx, entry, "colorCenterLine", path);
+      checkColor(ctx, entry, "colorGrid", path);
+      break;
+    case "mesh":
+      checkShape(ctx, entry.shape, `${path}.shape`, entry.physics);
+      checkMaterial(ctx, entry.material, `${path}.material`);
+      checkColor(ctx, entry, "color", path);
+      checkBoolean(ctx, entry, "castShadow", path);
+      checkBoolean(ctx, entry, "receiveShadow", path);
+      checkObjectEntry(ctx, entry, path);
+      break;
+    case "group":
+      checkObjectEntry(ctx, entry, path);
+      break;
+    case "camera":
+      checkCamera(ctx, entry, path);
+      break;
+  }
+  ctx.name = previousName;
+};
+
+/** Keys shared by meshes and groups */
+const checkObjectEntry = (ctx: Context, entry: Entry, path: string) => {
+  checkVector(ctx, entry, "scale", path);
+  checkPhysics(ctx, entry.physics, `${path}.physics`);
+  checkMotion(ctx, entry.motion, `${path}.motion`);
+  checkSensors(ctx, entry.sensors, `${path}.sensors`);
+  checkParent(ctx, entry, path);
+
+  const controller = entry.controller;
+  if (
+    controller !== undefined &&
+    typeof controller !== "string" &&
+    !(isObject(controller) && typeof controller.type === "string")
+  ) {
+    report(
+      ctx,
+      "error",
+      `${path}.controller`,
+      'Expected a name or an object with a "type"'
+    );
+  }
+
+  if (checkArray(ctx, entry.children, `${path}.children`)) {
+    entry.children.forEach((child, i) =>
+      checkEntry(ctx, child, `${path}.children[${i}]`)
+    );
+  }
+};
+
+const checkConstraint = (ctx: Context, constraint: any, path: string) => {
+  if (!checkObject(ctx, constraint, path, true)) return;
+  checkKeys(ctx, constraint, path, CONSTRAINT_KEYS);
+  if (!CONSTRAINT_TYPES.includes(constraint.type)) {
+    report(
+      ctx,
+      "error",
+      `${path}.type`,
+      `Expected one of ${CONSTRAINT_TYPES.join(", ")}, got ${JSON.stringify(constraint.type)}`
+    );
+  }
+  checkString(ctx, constraint, "name", path);
+  ["bodyA", "bodyB"].forEach((key) => {
+    const body = constraint[key];
+    if (typeof body !== "string") {
+      report(ctx, "error", `${path}.${key}`, "Expected the name of an object");
+    } else if (!ctx.names.has(body) && !ctx.ids.has(body)) {
+      report(ctx, "error", `${path}.${key}`, `No object named "${body}"`);
+    }
+  });
+  ["point", "pointA", "pointB", "axis", "normal"].forEach((key) =>
+    checkVector(ctx, constraint, key, path)
+  );
+  if (checkObject(ctx, constraint.limits, `${path}.limits`)) {
+    const { min, max } = constraint.limits;
+    if (!isNumber(min) || !isNumber(max) || min > max) {
+      report(
+        ctx,
+        "error",
+        `${path}.limits`,
+        "Expected { min, max } numbers with min <= max"
+      );
+    }
+  }
+  ["minDistance", "maxDistance", "halfConeAngle", "maxFriction"].forEach(
+    (key) => checkNumber(ctx, constraint, key, path, { min: 0 })
+  );
+  if (checkObject(ctx, constraint.spring, `${path}.spring`)) {
+    checkKeys(ctx, constraint.spring, `${path}.spring`, SPRING_KEYS);
+  }
+  if (checkObject(ctx, constraint.motor, `${path}.motor`)) {
+    checkKeys(ctx, constraint.motor, `${path}.motor`, MOTOR_KEYS);
+    checkEnum(ctx, constraint.motor, "state", `${path}.motor`, [
+      "off",
+      "velocity",
+      "position",
+    ]);
+  }
+  ["axes", "springs", "motors"].forEach((key) => {
+    if (checkObject(ctx, constraint[key], `${path}.${key}`)) {
+      checkKeys(ctx, constraint[key], `${path}.${key}`, SIX_DOF_AXES);
+    }
+  });
+  checkBoolean(ctx, constraint, "enabled", path);
+};
+
+/**
+ * Names and ids of every object, including nested children. Duplicate names
+ * are only warned about since addObject() renames them by default.
+ */
+const collectNames = (
+  ctx: Context,
+  entries: any[],
+  path: string,
+  index?: number
+) => {
+  entries.forEach((entry, i) => {
+    if (!isObject(entry)) return;
+    ctx.index = index ?? i;
+    if (typeof entry.name === "string") {
+      ctx.name = entry.name;
+      if (ctx.names.has(entry.name)) {
+        report(
+          ctx,
+          "warning",
+          `${path}[${i}].name`,
+          `Duplicate name "${entry.name}"`
+        );
+      }
+      ctx.names.add(entry.name);
+    }
+    if (typeof entry.id === "string") {
+      if (ctx.ids.has(entry.id)) {
+        report(ctx, "error", `${path}[${i}].id`, `Duplicate id "${entry.id}"`);
+      }
+      ctx.ids.add(entry.id);
+    }
+    if (Array.isArray(entry.children)) {
+      collectNames(ctx, entry.children, `${path}[${i}].children`, ctx.index);
+    }
+  });
+};
+
+const toValidation = (issues: SceneIssue[]): SceneValidation => {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.severity === "warning"),
+  };
+};
+
+/**
+ * Check a scene (JSON text or parsed) in either the plain array format or the
+ * `{ scene, constraints }` format from exportSceneWithConstraints()
+ */
+export function validateScene(json: string | any): SceneValidation {
+  const ctx: Context = { issues: [], names: new Set(), ids: new Set() };
+  let data = json;
+
+  if (typeof json === "string") {
+    try {
+      // Hex literals are accepted the same way interpretJSON() accepts them
+      data = JSON.parse(
+        json.replace(
+          /:\s*0x([0-9a-fA-F]+)/g,
+          (match, hex) => `: ${parseInt(hex, 16)}`
+        )
+      );
+    } catch (e) {
+      report(ctx, "error", "$", `Invalid JSON: ${e.message}`);
+      return toValidation(ctx.issues);
+    }
+  }
+
+  let entries = data;
+  let entriesPath = "$";
+  let constraints = undefined;
+  if (isObject(data) && "scene" in data) {
+    checkKeys(ctx, data, "$", ["scene", "constraints", "layers"]);
+    if (checkObject(ctx, data.layers, "$.layers")) {
+      Object.entries(data.layers).forEach(([layer, config]) => {
+        const path = `$.layers.${layer}`;
+        if (!checkObject(ctx, config, path)) return;
+        checkKeys(ctx, config, path, ["visible", "opacity"]);
+        checkBoolean(ctx, config, "visible", path);
+        checkNumber(ctx, config, "opacity", path, { min: 0 });
+      });
+    }
+    entries = data.scene;
+    entriesPath = "$.scene";
+    constraints = data.constraints;
+  }
+
+  if (!Array.isArray(entries)) {
+    report(ctx, "error", entriesPath, "A scene must be an array of objects");
+    return toValidation(ctx.issues);
+  }
+
+  collectNames(ctx, entries, entriesPath);
+  entries.forEach((entry, i) => {
+    ctx.index = i;
+    ctx.name = undefined;
+    checkEntry(ctx, entry, `${entriesPath}[${i}]`);
+  });
+
+  ctx.index = undefined;
+  ctx.name = undefined;
+  if (checkArray(ctx, constraints, "$.constraints")) {
+    constraints.forEach((c, i) => {
+      ctx.name = typeof c?.name === "string" ? c.name : undefined;
+      checkConstraint(ctx, c, `$.constraints[${i}]`);
+    });
+  }
+
+  return toValidation(ctx.issues);
+}
+
+/**
+ * One-line description of an issue, e.g.
+ * `error: $[3].shape.radius (Ball): Must be greater than 0`
+ */
+export function formatSceneIssue(issue: SceneIssue): string {
+  const name = issue.name !== undefined ? ` (${issue.name})` : "";
+  return `${issue.severity}: ${issue.path}${name}: ${issue.message}`;
+}
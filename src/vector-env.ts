@@ -0,0 +1,321 @@
+import type { Worker } from "node:worker_threads";
+import { IsoCardEnv, type IsoCardEnvOptions, type Space } from "./env.js";
+
+/** Builds the options of the env at `index`; may be async */
+export type EnvFactory = (
+  index: number
+) => IsoCardEnvOptions<any, any> | Promise<IsoCardEnvOptions<any, any>>;
+
+export type VectorEnvOptions = {
+  numEnvs: number;
+  /** Env factory for in-process worlds */
+  createEnv?: EnvFactory;
+  /**
+   * Module URL whose default export is an EnvFactory. Required with `workers`,
+   * since functions cannot be sent to worker threads.
+   */
+  envModule?: string;
+  /** Spread the worlds over this many worker_threads (Node/Bun only) */
+  workers?: number;
+  /** Reset finished worlds automatically inside step() (default true) */
+  autoReset?: boolean;
+};
+
+export type VectorStepResult<Obs = number[]> = {
+  observations: Obs[];
+  rewards: number[];
+  terminated: boolean[];
+  truncated: boolean[];
+  infos: Record<string, any>[];
+};
+
+/**
+ * The EnvFactory exported by `envModule` (default or createEnv export)
+ */
+export const loadEnvFactory = async (
+  envModule: string
+): Promise<EnvFactory> => {
+  const mod = await import(envModule);
+  const factory = mod.default ?? mod.createEnv;
+  if (typeof factory !== "function") {
+    throw new Error(`${envModule} does not export an env factory`);
+  }
+  return factory;
+};
+
+/**
+ * A set of envs stepped together in one thread. Used directly for
+ * in-process worlds and by each worker thread.
+ */
+export class EnvBatch {
+  private envs: IsoCardEnv<any, any>[] = [];
+  private autoReset: boolean;
+
+  constructor(envs: IsoCardEnv<any, any>[], autoReset: boolean = true) {
+    this.envs = envs;
+    this.autoReset = autoReset;
+  }
+
+  static async create(
+    factory: EnvFactory,
+    indices: number[],
+    autoReset: boolean = true
+  ): Promise<EnvBatch> {
+    const envs = [];
+    for (const index of indices) {
+      envs.push(new IsoCardEnv(await factory(index)));
+    }
+    return new EnvBatch(envs, autoReset);
+  }
+
+  get size(): number {
+    return this.envs.length;
+  }
+
+  getSpaces(): { actionSpace: Space; observationSpace: Space } {
+    const env = this.envs[0];
+    return {
+      actionSpace: env?.actionSpace,
+      observationSpace: env?.observationSpace,
+    };
+  }
+
+  async reset(seeds: (number | undefined)[]) {
+    const observations = [];
+    const infos = [];
+    for (let i = 0; i < this.envs.length; i++) {
+      const { observation, info } = await this.envs[i].reset(seeds[i]);
+      observations.push(observation);
+      infos.push(info);
+    }
+    return { observations, infos };
+  }
+
+  async step(actions: any[]): Promise<VectorStepResult<any>> {
+    const result: VectorStepResult<any> = {
+      observations: [],
+      rewards: [],
+      terminated: [],
+      truncated: [],
+      infos: [],
+    };
+
+    for (let i = 0; i < this.envs.length; i++) {
+      const step = this.envs[i].step(actions[i]);
+      let { observation, info } = step;
+
+      if (this.autoReset && (step.terminated || step.truncated)) {
+        const reset = await this.envs[i].reset();
+        info = {
+          ...reset.info,
+          finalObservation: observation,
+          finalInfo: info,
+        };
+        observation = reset.observation;
+      }
+
+      result.observations.push(observation);
+      result.rewards.push(step.reward);
+      result.terminated.push(step.terminated);
+      result.truncated.push(step.truncated);
+      result.infos.push(info);
+    }
+    return result;
+  }
+
+  close() {
+    this.envs.forEach((env) => env.close());
+    this.envs = [];
+  }
+}
+
+/**
+ * N independent headless IsoCard worlds built from one scene, stepped in
+ * lockstep with a batched action array.
+ */
+export class IsoCardVectorEnv {
+  readonly numEnvs: number;
+  actionSpace: Space;
+  observationSpace: Space;
+
+  private batch: EnvBatch | null = null;
+  private workers: { worker: Worker; start: number; count: number }[] = [];
+  private nextMessageId: number = 0;
+
+  private constructor(numEnvs: number) {
+    this.numEnvs = numEnvs;
+  }
+
+  static async create(options: VectorEnvOptions): Promise<IsoCardVectorEnv> {
+    const { numEnvs, workers = 0, autoReset = true } = options;
+    if (!(numEnvs > 0)) throw new Error("numEnvs must be at least 1");
+
+    const vec = new IsoCardVectorEnv(numEnvs);
+
+    if (workers > 0) {
+      if (!options.envModule) {
+        throw new Error("envModule is required when using workers");
+      }
+      await vec.spawnWorkers(
+        Math.min(workers, numEnvs),
+        options.envModule,
+        autoReset
+      );
+    } else {
+      const factory =
+        options.createEnv ??
+        (options.envModule ? await loadEnvFactory(options.envModule) : null);
+      if (!factory) throw new Error("createEnv or envModule is required");
+
+      const indices = Array.from({ length: numEnvs }, (_, i) => i);
+      vec.batch = await EnvBatch.create(factory, indices, autoReset);
+      ({
+        actionSpace: vec.actionSpace,
+        observationSpace: vec.observationSpace,
+      } = vec.batch.getSpaces());
+    }
+    return vec;
+  }
+
+  /**
+   * Reset every world. World i is seeded with `seed + i` when a seed is given.
+   */
+  async reset(seed?: number) {
+    const seeds = Array.from({ length: this.numEnvs }, (_, i) =>
+      seed === undefined ? undefined : seed + i
+    );
+
+    if (this.batch) return this.batch.reset(seeds);
+
+    const parts = await Promise.all(
+      this.workers.map((w) =>
+        this.call(w.worker, {
+          type: "reset",
+          seeds: seeds.slice(w.start, w.start + w.count),
+        })
+      )
+    );
+    return {
+      observations: parts.flatMap((p) => p.observations),
+      infos: parts.flatMap((p) => p.infos),
+    };
+  }
+
+  /**
+   * Step every world with its action; `actions[i]` goes to world i
+   */
+  async step<Obs = number[]>(actions: any[]): Promise<VectorStepResult<Obs>> {
+    if (actions.length !== this.numEnvs) {
+      throw new Error(
+        `Expected ${this.numEnvs} actions, received ${actions.length}`
+      );
+    }
+
+    if (this.batch) return this.batch.step(actions);
+
+    const parts: VectorStepResult<Obs>[] = await Promise.all(
+      this.workers.map((w) =>
+        this.call(w.worker, {
+          type: "step",
+          actions: actions.slice(w.start, w.start + w.count),
+        })
+      )
+    );
+    return {
+      observations: parts.flatMap((p) => p.observations),
+      rewards: parts.flatMap((p) => p.rewards),
+      terminated: parts.flatMap((p) => p.terminated),
+      truncated: parts.flatMap((p) => p.truncated),
+      infos: parts.flatMap((p) => p.infos),
+    };
+  }
+
+  async close() {
+    if (this.batch) {
+      this.batch.close();
+      this.batch = null;
+    }
+    await Promise.all(
+      this.workers.map(async (w) => {
+        // A worker that crashed has nothing left to close
+        await this.call(w.worker, { type: "close" }).catch(() => null);
+        await w.worker.terminate();
+      })
+    );
+    this.workers = [];
+  }
+
+  private async spawnWorkers(
+    numWorkers: number,
+    envModule: string,
+    autoReset: boolean
+  ) {
+    const { Worker } = await import("node:worker_threads");
+    const workerUrl = new URL("./vector-worker.js", import.meta.url);
+
+    // Contiguous chunks keep world i's results at index i
+    const base = Math.floor(this.numEnvs / numWorkers);
+    const extra = this.numEnvs % numWorkers;
+    let start = 0;
+    for (let i = 0; i < numWorkers; i++) {
+      const count = base + (i < extra ? 1 : 0);
+      this.workers.push({ worker: new Worker(workerUrl), start, count });
+      start += count;
+    }
+
+    let spaces;
+    try {
+      spaces = await Promise.all(
+        this.workers.map((w) =>
+          this.call(w.worker, {
+            type: "init",
+            envModule,
+            autoReset,
+            indices: Array.from({ length: w.count }, (_, i) => w.start + i),
+          })
+        )
+      );
+    } catch (error) {
+      // Nobody gets a handle to close these
+      await Promise.all(this.workers.map((w) => w.worker.terminate()));
+      this.workers = [];
+      throw error;
+    }
+    this.actionSpace = spaces[0].actionSpace;
+    this.observationSpace = spaces[0].observationSpace;
+  }
+
+  private call(worker: Worker, message: Record<string, any>): Promise<any> {
+    const id = this.nextMessageId++;
+    return new Promise((resolve, reject) => {
+      // A worker that has exited has threadId -1 and never replies
+      if (worker.threadId === -1) {
+        reject(new Error("Env worker has exited"));
+        return;
+      }
+      const cleanup = () => {
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+        worker.off("exit", onExit);
+      };
+      const onMessage = (reply) => {
+        if (reply.id !== id) return;
+        cleanup();
+        if (reply.error) reject(new Error(reply.error));
+        else resolve(reply.result);
+      };
+      const onError = (error) => {
+        cleanup();
+        reject(error);
+      };
+      const onExit = (code: number) => {
+        cleanup();
+        reject(new Error(`Env worker exited with code ${code}`));
+      };
+      worker.on("message", onMessage);
+      worker.once("error", onError);
+      worker.once("exit", onExit);
+      worker.postMessage({ ...message, id });
+    });
+  }
+}
@@ -0,0 +1,38 @@
+// Worker thread entry for IsoCardVectorEnv: owns a slice of the worlds
+import { EnvBatch, loadEnvFactory } from "./vector-env.js";
+
+const { parentPort } = await import("node:worker_threads");
+
+let batch: EnvBatch | null = null;
+
+const handle = async (message) => {
+  switch (message.type) {
+    case "init": {
+      batch = await EnvBatch.create(
+        await loadEnvFactory(message.envModule),
+        message.indices,
+        message.autoReset
+      );
+      return batch.getSpaces();
+    }
+    case "reset":
+      return batch.reset(message.seeds);
+    case "step":
+      return batch.step(message.actions);
+    case "close":
+      batch?.close();
+      batch = null;
+      return null;
+    default:
+      throw new Error(`Unknown message type: ${message.type}`);
+  }
+};
+
+parentPort.on("message", async (message) => {
+  try {
+    const result = await handle(message);
+    parentPort.postMessage({ id: message.id, result });
+  } catch (error) {
+    parentPort.postMessage({ id: message.id, error: String(error) });
+  }
+});
@@ -0,0 +1,52 @@
+import { expect, test } from "bun:test";
+import * as THREE from "three";
+import initJolt from "jolt-physics/wasm-compat";
+import { IsoCard, diffScenes } from "../src/index.js";
+
+const jolt = await initJolt();
+
+const createIso = async () => {
+  const iso = new IsoCard(null, { THREE, jolt }, { isServer: true });
+  await iso.setupJOLT();
+  return iso;
+};
+
+test("objects added by a patch get physics bodies", async () => {
+  const server = await createIso();
+  const client = await createIso();
+  server.loadSceneWithConstraints(
+    JSON.stringify([
+      {
+        id: "floor",
+        shape: { type: "box", width: 40, height: 1, depth: 40 },
+        physics: { motionType: "static" },
+      },
+    ])
+  );
+  client.loadSceneWithConstraints(
+    JSON.stringify(server.exportSceneWithConstraints())
+  );
+
+  const before = server.exportSceneWithConstraints();
+  server.interpretJSON(
+    JSON.stringify([
+      {
+        id: "ball",
+        shape: { type: "sphere", radius: 0.5 },
+        pos: [0, 5, 0],
+        physics: { motionType: "dynamic" },
+      },
+    ])
+  );
+  expect(
+    client.applyPatch(diffScenes(before, server.exportSceneWithConstraints()))
+  ).toBe(true);
+
+  for (let i = 0; i < 30; i++) {
+    server.step();
+    client.step();
+  }
+  const y = client.getBodyState("ball")?.position[1];
+  expect(y).toBeLessThan(5);
+  expect(y).toBeCloseTo(server.getBodyState("ball").position[1], 5);
+});